@@ -0,0 +1,282 @@
+#!/usr/bin/env -S npx tsx
+// cx-nav: drives CX Navigator's public HTTP API (src/convex/publicApi.ts) from CI.
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import type { ReportStep } from "../src/convex/runReport";
+
+const USAGE = `Usage: cx-nav <command> [options]
+
+Commands:
+  run        Start a suite run, stream its results and exit non-zero if any test fails
+  discover   Start a discovery job, wait for it and download its artifacts
+  suites     List the project's suites
+
+Connection (or the environment variables in brackets):
+  --url <url>           Deployment HTTP URL, e.g. https://happy-otter-123.convex.site [CX_NAV_URL]
+  --api-key <key>       Project API key from Settings → API Keys [CX_NAV_API_KEY]
+  --project <id>        Project id [CX_NAV_PROJECT]
+
+run:
+  --suite <id|name>     Suite to run
+  --junit <file>        Write a JUnit XML report
+  --html <file>         Write an HTML report
+  --json <file>         Write a JSON summary
+
+discover:
+  --entry-point <num>   Phone number or entry point to crawl
+  --input-type <type>   "simulated" or "text" for offline crawls
+  --policy <json>       Crawl policy, e.g. '{"maxDepth":3}'
+  --out <dir>           Where to write graph.json and crawl_report.json (default: .)
+  --test-cases          Also download test_cases.json
+
+Waiting:
+  --timeout <seconds>   Give up after this long (default: 1800)
+  --interval <seconds>  Poll interval (default: 5)
+
+Exit codes: 0 passed, 1 tests, the run or discovery failed, 2 usage or API error, 3 timed out.`;
+
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+const EXIT_TIMEOUT = 3;
+
+class UsageError extends Error {}
+
+class TimeoutError extends Error {}
+
+type RunStatus = {
+  runId: string;
+  status: string;
+  summary?: string;
+  totalTests: number;
+  totals: { tests: number; passed: number; failed: number };
+  tests: { testCaseId: string; title: string; status: string; durationMs: number; steps: ReportStep[] }[];
+};
+
+type JobStatus = {
+  jobId: string;
+  status: string;
+  waitingFor?: string;
+  artifacts: string[];
+};
+
+function parseOptions() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        url: { type: "string" },
+        "api-key": { type: "string" },
+        project: { type: "string" },
+        suite: { type: "string" },
+        junit: { type: "string" },
+        html: { type: "string" },
+        json: { type: "string" },
+        "entry-point": { type: "string" },
+        "input-type": { type: "string" },
+        policy: { type: "string" },
+        out: { type: "string", default: "." },
+        "test-cases": { type: "boolean", default: false },
+        timeout: { type: "string", default: "1800" },
+        interval: { type: "string", default: "5" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    // Unknown flags and missing flag values
+    console.error(`cx-nav: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(EXIT_ERROR);
+  }
+}
+
+const { values: options, positionals } = parseOptions();
+
+function required(value: string | undefined, flag: string, env?: string): string {
+  if (!value) throw new UsageError(`Missing --${flag}${env ? ` (or ${env})` : ""}`);
+  return value;
+}
+
+function seconds(flag: "timeout" | "interval"): number {
+  const value = Number(options[flag]);
+  if (!Number.isFinite(value) || value <= 0) throw new UsageError(`--${flag} must be a positive number of seconds`);
+  return value * 1000;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- HTTP --- //
+
+function client() {
+  const baseUrl = required(options.url ?? process.env.CX_NAV_URL, "url", "CX_NAV_URL").replace(/\/+$/, "");
+  const apiKey = required(options["api-key"] ?? process.env.CX_NAV_API_KEY, "api-key", "CX_NAV_API_KEY");
+  const project = required(options.project ?? process.env.CX_NAV_PROJECT, "project", "CX_NAV_PROJECT");
+
+  return async (method: "GET" | "POST", path: string, body?: unknown): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/api/v1/projects/${project}/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).error ?? text;
+      } catch {
+        // Not JSON; keep the raw body
+      }
+      throw new Error(`${method} ${path} failed (${response.status}): ${message}`);
+    }
+    return response;
+  };
+}
+
+type Request = ReturnType<typeof client>;
+
+/** Polls `check` until it returns a value, or throws once the --timeout passes. */
+async function waitFor<T>(check: () => Promise<T | undefined>): Promise<T> {
+  const deadline = Date.now() + seconds("timeout");
+  const interval = seconds("interval");
+  for (;;) {
+    const result = await check();
+    if (result !== undefined) return result;
+    if (Date.now() + interval > deadline) throw new TimeoutError(`Timed out after ${options.timeout}s`);
+    await sleep(interval);
+  }
+}
+
+// --- Commands --- //
+
+async function resolveSuiteId(request: Request, suite: string): Promise<string> {
+  const suites: { id: string; name: string }[] = await (await request("GET", "suites")).json();
+  const match =
+    suites.find((s) => s.id === suite) ?? suites.find((s) => s.name.toLowerCase() === suite.toLowerCase());
+  if (!match) {
+    throw new UsageError(`No suite "${suite}"; available: ${suites.map((s) => s.name).join(", ") || "none"}`);
+  }
+  return match.id;
+}
+
+function printTest(test: RunStatus["tests"][number]) {
+  const mark = test.status === "pass" ? "✓" : "✗";
+  console.log(`${mark} ${test.title} (${Math.round(test.durationMs)}ms)`);
+  for (const step of test.steps) {
+    const stepMark = step.status === "pass" ? "  ·" : "  ✗";
+    const text = step.detail ?? step.heard ?? step.input ?? "";
+    const latency = step.latencyMs !== undefined ? ` [${step.latencyMs}ms]` : "";
+    console.log(`${stepMark} ${step.stepIndex + 1}. ${step.action}${text ? `: ${text}` : ""}${latency}`);
+  }
+}
+
+async function runCommand(): Promise<number> {
+  const request = client();
+  const suiteId = await resolveSuiteId(request, required(options.suite, "suite"));
+
+  const started: { runId: string; totalTests: number } = await (
+    await request("POST", `suites/${suiteId}/runs`)
+  ).json();
+  console.log(`Started run ${started.runId} with ${started.totalTests} test(s)`);
+
+  // Results arrive per test; print each once as it lands
+  const printed = new Set<string>();
+  const run = await waitFor(async () => {
+    const status: RunStatus = await (await request("GET", `runs/${started.runId}`)).json();
+    for (const test of status.tests) {
+      if (printed.has(test.testCaseId)) continue;
+      printed.add(test.testCaseId);
+      printTest(test);
+    }
+    // "failed": the run stopped reporting results and was given up on
+    return status.status === "completed" || status.status === "failed" ? status : undefined;
+  });
+
+  for (const [format, file] of [["junit", options.junit], ["html", options.html], ["json", options.json]]) {
+    if (!file) continue;
+    const report = await (await request("GET", `runs/${started.runId}?format=${format}`)).text();
+    await writeFile(file, report);
+    console.log(`Wrote ${format} report to ${file}`);
+  }
+
+  const { passed, failed, tests } = run.totals;
+  console.log(`\n${run.summary ?? ""}\n${passed} passed, ${failed} failed, ${tests} total`);
+  return failed > 0 || run.status === "failed" ? EXIT_FAILED : 0;
+}
+
+async function discoverCommand(): Promise<number> {
+  const request = client();
+  let policy: unknown;
+  if (options.policy) {
+    try {
+      policy = JSON.parse(options.policy);
+    } catch {
+      throw new UsageError("--policy must be JSON");
+    }
+  }
+
+  const { jobId }: { jobId: string } = await (
+    await request("POST", "discovery", {
+      entryPoint: required(options["entry-point"], "entry-point"),
+      inputType: options["input-type"],
+      policy,
+    })
+  ).json();
+  console.log(`Started discovery job ${jobId}`);
+
+  let lastStatus = "";
+  const job = await waitFor(async () => {
+    const status: JobStatus = await (await request("GET", `discovery/${jobId}`)).json();
+    if (status.status !== lastStatus) {
+      lastStatus = status.status;
+      console.log(`Job ${status.status}${status.waitingFor ? ` (waiting for ${status.waitingFor})` : ""}`);
+    }
+    // A job waiting for input needs someone in the Discovery page; keep waiting until the timeout
+    return ["completed", "failed", "cancelled"].includes(status.status) ? status : undefined;
+  });
+  if (job.status !== "completed") return EXIT_FAILED;
+
+  const downloads: [string, string][] = [
+    ["graph", "graph.json"],
+    ["report", "crawl_report.json"],
+    ...(options["test-cases"] ? ([["testCases", "test_cases.json"]] as [string, string][]) : []),
+  ];
+  await mkdir(options.out, { recursive: true });
+  for (const [artifact, fileName] of downloads) {
+    const content = await (await request("GET", `discovery/${jobId}/artifacts/${artifact}`)).text();
+    const path = join(options.out, fileName);
+    await writeFile(path, content);
+    console.log(`Wrote ${path}`);
+  }
+  return 0;
+}
+
+async function suitesCommand(): Promise<number> {
+  const request = client();
+  const suites: { id: string; name: string; testCaseIds: string[] }[] = await (await request("GET", "suites")).json();
+  for (const suite of suites) console.log(`${suite.id}  ${suite.name} (${suite.testCaseIds.length} tests)`);
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const [command] = positionals;
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? 0 : EXIT_ERROR;
+  }
+
+  try {
+    if (command === "run") return await runCommand();
+    if (command === "discover") return await discoverCommand();
+    if (command === "suites") return await suitesCommand();
+    throw new UsageError(`Unknown command "${command}"`);
+  } catch (error) {
+    console.error(`cx-nav: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof UsageError) console.error("Run cx-nav --help for usage.");
+    return error instanceof TimeoutError ? EXIT_TIMEOUT : EXIT_ERROR;
+  }
+}
+
+process.exitCode = await main();
@@ -22,6 +22,12 @@ const PORT = process.env.PORT || 3000;
 // Store active calls
 const calls = new Map<string, any>();
 
+// Milliseconds from `sentAt` until the IVR's next transcript arrived, if one did
+function latencySince(callData: { heardAt?: number[] } | undefined, sentAt: number): number | undefined {
+  const heardAt = (callData?.heardAt ?? []).find((t) => t >= sentAt);
+  return heardAt === undefined ? undefined : heardAt - sentAt;
+}
+
 // Health check
 app.get("/health", (req, res) => {
   res.json({ status: "ok", env: { 
@@ -54,7 +60,7 @@ app.post("/dial", async (req, res) => {
       statusCallbackEvent: ["initiated", "ringing", "answered", "completed"],
     });
 
-    calls.set(call.sid, { status: "initiated", transcript: [] });
+    calls.set(call.sid, { status: "initiated", transcript: [], heardAt: [] });
     res.json({ callId: call.sid, status: "initiated" });
   } catch (error: any) {
     console.error("[Dial] Error:", error);
@@ -92,6 +98,7 @@ app.post("/send-dtmf", async (req, res) => {
 
     // Play DTMF tones on the active call
     // Note: This plays to the callee.
+    const sentAt = Date.now();
     await client.calls(callId).update({
       twiml: `<Response><Play digits="${digit}"></Play><Pause length="10"/></Response>`
     });
@@ -107,7 +114,8 @@ app.post("/send-dtmf", async (req, res) => {
       success: true, 
       transcript,
       confidence: 0.95,
-      durationMs: 2000
+      durationMs: 2000,
+      latencyMs: latencySince(callData, sentAt)
     });
   } catch (error: any) {
     console.error("[DTMF] Error:", error);
@@ -115,7 +123,75 @@ app.post("/send-dtmf", async (req, res) => {
   }
 });
 
-// 4. Hangup
+// 4. Speak (speech-enabled IVRs)
+app.post("/speak", async (req, res) => {
+  const { callId, utterance } = req.body;
+  if (!callId || !utterance) {
+    res.status(400).json({ error: "Missing callId or utterance" });
+    return;
+  }
+
+  try {
+    const client = Twilio(
+      process.env.TWILIO_ACCOUNT_SID,
+      process.env.TWILIO_AUTH_TOKEN
+    );
+
+    // Speak the utterance to the callee with text-to-speech
+    const twiml = new Twilio.twiml.VoiceResponse();
+    twiml.say(utterance);
+    twiml.pause({ length: 10 });
+    const sentAt = Date.now();
+    await client.calls(callId).update({ twiml: twiml.toString() });
+
+    // Speech takes longer to play and recognize than a DTMF tone
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    const callData = calls.get(callId);
+    const transcript = callData?.transcript.join(" ") || "";
+
+    res.json({
+      success: true,
+      transcript,
+      confidence: 0.95,
+      durationMs: 3000,
+      latencyMs: latencySince(callData, sentAt)
+    });
+  } catch (error) {
+    console.error("[Speak] Error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// 5. Wait (no-input probes)
+app.post("/wait", async (req, res) => {
+  const { callId, seconds } = req.body;
+  if (!callId || !seconds) {
+    res.status(400).json({ error: "Missing callId or seconds" });
+    return;
+  }
+
+  const callData = calls.get(callId);
+  if (!callData) {
+    res.status(404).json({ error: "Unknown callId" });
+    return;
+  }
+
+  // Stay silent and return only what the IVR said while we waited
+  const heardBefore = callData.transcript.length;
+  const sentAt = Date.now();
+  await new Promise(resolve => setTimeout(resolve, Number(seconds) * 1000));
+
+  res.json({
+    success: true,
+    transcript: callData.transcript.slice(heardBefore).join(" "),
+    confidence: 0.95,
+    durationMs: Number(seconds) * 1000,
+    latencyMs: latencySince(callData, sentAt)
+  });
+});
+
+// 6. Hangup
 app.post("/hangup", async (req, res) => {
   const { callId } = req.body;
   if (!callId) {
@@ -165,6 +241,7 @@ wss.on("connection", (ws) => {
         const callData = calls.get(callSid);
         if (callData) {
           callData.transcript.push(transcript);
+          callData.heardAt.push(Date.now());
         }
       }
     });
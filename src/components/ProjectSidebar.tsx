@@ -1,6 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { Activity, ChevronLeft, FileText, LayoutDashboard, Network, Play, Settings } from "lucide-react";
+import { Activity, CalendarClock, ChevronLeft, FileText, LayoutDashboard, Network, Play, Settings } from "lucide-react";
 import { Link, useLocation, useParams } from "react-router";
 
 export function ProjectSidebar() {
@@ -28,6 +28,11 @@ export function ProjectSidebar() {
       href: `/project/${projectId}/execution`,
       icon: Play,
     },
+    {
+      title: "Monitoring",
+      href: `/project/${projectId}/monitoring`,
+      icon: CalendarClock,
+    },
     {
       title: "Settings",
       href: `/project/${projectId}/settings`,
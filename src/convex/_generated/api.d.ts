@@ -8,15 +8,39 @@
  * @module
  */
 
+import type * as access from "../access.js";
+import type * as alertActions from "../alertActions.js";
+import type * as alerting from "../alerting.js";
+import type * as alerts from "../alerts.js";
+import type * as apiKeys from "../apiKeys.js";
+import type * as assertions from "../assertions.js";
 import type * as auth from "../auth.js";
 import type * as auth_emailOtp from "../auth/emailOtp.js";
+import type * as crawler from "../crawler.js";
+import type * as credentials from "../credentials.js";
+import type * as crons from "../crons.js";
 import type * as discovery from "../discovery.js";
 import type * as discoveryActions from "../discoveryActions.js";
 import type * as execution from "../execution.js";
+import type * as executionActions from "../executionActions.js";
+import type * as graph from "../graph.js";
 import type * as http from "../http.js";
+import type * as inputVault from "../inputVault.js";
+import type * as menuOptions from "../menuOptions.js";
+import type * as monitoring from "../monitoring.js";
 import type * as projects from "../projects.js";
+import type * as prompts from "../prompts.js";
+import type * as publicApi from "../publicApi.js";
+import type * as reports from "../reports.js";
+import type * as runReport from "../runReport.js";
+import type * as schedule from "../schedule.js";
+import type * as suites from "../suites.js";
+import type * as telephony from "../telephony.js";
 import type * as testCases from "../testCases.js";
+import type * as testGeneration from "../testGeneration.js";
+import type * as testSteps from "../testSteps.js";
 import type * as users from "../users.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -25,15 +49,39 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  access: typeof access;
+  alertActions: typeof alertActions;
+  alerting: typeof alerting;
+  alerts: typeof alerts;
+  apiKeys: typeof apiKeys;
+  assertions: typeof assertions;
   auth: typeof auth;
   "auth/emailOtp": typeof auth_emailOtp;
+  crawler: typeof crawler;
+  credentials: typeof credentials;
+  crons: typeof crons;
   discovery: typeof discovery;
   discoveryActions: typeof discoveryActions;
   execution: typeof execution;
+  executionActions: typeof executionActions;
+  graph: typeof graph;
   http: typeof http;
+  inputVault: typeof inputVault;
+  menuOptions: typeof menuOptions;
+  monitoring: typeof monitoring;
   projects: typeof projects;
+  prompts: typeof prompts;
+  publicApi: typeof publicApi;
+  reports: typeof reports;
+  runReport: typeof runReport;
+  schedule: typeof schedule;
+  suites: typeof suites;
+  telephony: typeof telephony;
   testCases: typeof testCases;
+  testGeneration: typeof testGeneration;
+  testSteps: typeof testSteps;
   users: typeof users;
+  workspaces: typeof workspaces;
 }>;
 
 /**
@@ -0,0 +1,169 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { Role, ROLES } from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+/**
+ * A project in Alice's workspace with one of everything, plus Bob, who is not
+ * a member, and Vera, who is a viewer.
+ */
+async function setup() {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const alice = await ctx.db.insert("users", { name: "Alice" });
+    const bob = await ctx.db.insert("users", { name: "Bob" });
+    const vera = await ctx.db.insert("users", { name: "Vera" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: alice });
+    const members: [Id<"users">, Role][] = [[alice, ROLES.ADMIN], [vera, ROLES.USER]];
+    for (const [userId, role] of members) {
+      await ctx.db.insert("workspace_members", { workspaceId, userId, role });
+    }
+    const bobWorkspace = await ctx.db.insert("workspaces", { name: "Bob's", createdBy: bob });
+    await ctx.db.insert("workspace_members", { workspaceId: bobWorkspace, userId: bob, role: ROLES.ADMIN });
+
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: alice,
+      workspaceId,
+    });
+    const jobId = await ctx.db.insert("discovery_jobs", {
+      projectId,
+      status: "completed",
+      entryPoint: "+15550100",
+      startTime: Date.now(),
+    });
+    await ctx.db.insert("discovery_logs", { jobId, message: "Dialing", type: "info", timestamp: Date.now() });
+    await ctx.db.insert("ivr_nodes", { projectId, jobId, type: "menu", label: "Main Menu", content: "Welcome" });
+    const testCaseId = await ctx.db.insert("test_cases", {
+      projectId,
+      title: "Main menu",
+      steps: [{ action: "call", value: "+15550100" }],
+      status: "approved",
+      tags: [],
+    });
+    const suiteId = await ctx.db.insert("test_suites", { projectId, name: "Smoke" });
+    const runId = await ctx.db.insert("test_runs", {
+      projectId,
+      status: "completed",
+      startTime: Date.now(),
+      endTime: Date.now(),
+    });
+    await ctx.db.insert("test_results", { runId, testCaseId, status: "pass", logs: [], duration: 1000 });
+    return { alice, bob, vera, projectId, jobId, testCaseId, suiteId, runId };
+  });
+
+  const as = (userId: Id<"users">) => t.withIdentity({ subject: `${userId}|session` });
+  return { t, ...ids, asAlice: as(ids.alice), asBob: as(ids.bob), asVera: as(ids.vera) };
+}
+
+describe("project access", () => {
+  test("members read their workspace's projects", async () => {
+    const { asAlice, projectId, jobId, runId } = await setup();
+
+    expect(await asAlice.query(api.projects.get, { id: projectId })).toMatchObject({ role: ROLES.ADMIN });
+    expect(await asAlice.query(api.discovery.getNodes, { projectId })).toHaveLength(1);
+    expect(await asAlice.query(api.testCases.list, { projectId })).toHaveLength(1);
+    expect(await asAlice.query(api.discovery.getJob, { jobId })).not.toBeNull();
+    expect(await asAlice.query(api.discovery.getLogs, { jobId })).toHaveLength(1);
+    expect(await asAlice.query(api.execution.getRuns, { projectId })).toHaveLength(1);
+    expect(await asAlice.query(api.execution.getResults, { runId })).toHaveLength(1);
+    expect(await asAlice.query(api.reports.get, { runId })).not.toBeNull();
+  });
+
+  test("other users' reads come back empty", async () => {
+    const { asBob, projectId, jobId, runId, testCaseId } = await setup();
+
+    expect(await asBob.query(api.projects.get, { id: projectId })).toBeNull();
+    expect(await asBob.query(api.discovery.getNodes, { projectId })).toEqual([]);
+    expect(await asBob.query(api.testCases.list, { projectId })).toEqual([]);
+    expect(await asBob.query(api.testCases.get, { id: testCaseId })).toBeNull();
+    expect(await asBob.query(api.discovery.getJob, { jobId })).toBeNull();
+    expect(await asBob.query(api.discovery.getLatestJob, { projectId })).toBeNull();
+    expect(await asBob.query(api.discovery.listJobs, { projectId })).toEqual([]);
+    expect(await asBob.query(api.discovery.getLogs, { jobId })).toEqual([]);
+    expect(await asBob.query(api.execution.getRuns, { projectId })).toEqual([]);
+    expect(await asBob.query(api.execution.getResults, { runId })).toEqual([]);
+    expect(await asBob.query(api.reports.get, { runId })).toBeNull();
+  });
+
+  test("signed-out reads come back empty", async () => {
+    const { t, projectId, jobId } = await setup();
+
+    expect(await t.query(api.projects.get, { id: projectId })).toBeNull();
+    expect(await t.query(api.discovery.getNodes, { projectId })).toEqual([]);
+    expect(await t.query(api.discovery.getJob, { jobId })).toBeNull();
+  });
+
+  test("other users cannot change or delete the project", async () => {
+    const { t, asBob, projectId, jobId, testCaseId, suiteId } = await setup();
+
+    await expect(asBob.mutation(api.projects.deleteProject, { id: projectId })).rejects.toThrow("Project not found");
+    await expect(asBob.mutation(api.discovery.cancelJob, { jobId })).rejects.toThrow("Job not found");
+    await expect(asBob.mutation(api.testCases.remove, { id: testCaseId })).rejects.toThrow("Test case not found");
+    await expect(asBob.mutation(api.suites.remove, { id: suiteId })).rejects.toThrow("Suite not found");
+    await expect(t.mutation(api.projects.deleteProject, { id: projectId })).rejects.toThrow("Unauthorized");
+
+    expect(await t.run((ctx) => ctx.db.get(projectId))).not.toBeNull();
+  });
+
+  test("viewers read but cannot delete", async () => {
+    const { t, asVera, projectId, suiteId } = await setup();
+
+    expect(await asVera.query(api.projects.get, { id: projectId })).toMatchObject({ role: ROLES.USER });
+    await expect(asVera.mutation(api.projects.deleteProject, { id: projectId })).rejects.toThrow(
+      "Requires the admin role in this workspace"
+    );
+    await expect(asVera.mutation(api.suites.remove, { id: suiteId })).rejects.toThrow(
+      "Requires the member role in this workspace"
+    );
+
+    expect(await t.run((ctx) => ctx.db.get(projectId))).not.toBeNull();
+    expect(await t.run((ctx) => ctx.db.get(suiteId))).not.toBeNull();
+  });
+
+  test("only admins see pending invitations", async () => {
+    const { t, asAlice, asVera, alice, projectId } = await setup();
+    const workspaceId = (await t.run((ctx) => ctx.db.get(projectId)))!.workspaceId!;
+    await asAlice.mutation(api.workspaces.invite, { workspaceId, email: "carol@example.com", role: ROLES.MEMBER });
+
+    expect(await asAlice.query(api.workspaces.listInvitations, { workspaceId })).toMatchObject([
+      { email: "carol@example.com", invitedBy: alice },
+    ]);
+    expect(await asVera.query(api.workspaces.listInvitations, { workspaceId })).toEqual([]);
+  });
+
+  test("viewers cannot test-fire alert webhooks", async () => {
+    const { t, asVera, projectId } = await setup();
+    const ruleId = await t.run((ctx) =>
+      ctx.db.insert("alert_rules", {
+        projectId,
+        name: "Any failure",
+        condition: "any_failure",
+        webhookUrl: "https://hooks.example.com/cx",
+        secret: "whsec_test",
+        enabled: true,
+      })
+    );
+
+    await expect(asVera.mutation(api.alerts.testFire, { id: ruleId })).rejects.toThrow(
+      "Requires the admin role in this workspace"
+    );
+    expect(await t.run((ctx) => ctx.db.query("alert_deliveries").collect())).toEqual([]);
+  });
+
+  test("admins delete the project and its data", async () => {
+    const { t, asAlice, projectId } = await setup();
+
+    await asAlice.mutation(api.projects.deleteProject, { id: projectId });
+
+    expect(await t.run((ctx) => ctx.db.get(projectId))).toBeNull();
+    expect(await t.run((ctx) => ctx.db.query("test_cases").collect())).toEqual([]);
+  });
+});
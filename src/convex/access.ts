@@ -0,0 +1,138 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { QueryCtx } from "./_generated/server";
+import type { Doc, Id, TableNames } from "./_generated/dataModel";
+import { Role, ROLES } from "./schema";
+
+// --- Project authorization --- //
+//
+// Every public query and mutation resolves the project it touches through
+// these helpers. Queries read as empty (null, []) when the caller cannot see
+// the project so signed-out pages render instead of throwing; mutations throw.
+// Actions that crawl or place calls are internal and only scheduled by
+// mutations that have already checked access.
+//
+// Access comes from the caller's role in the project's workspace:
+//   user    view projects, runs and reports
+//   member  also discover, edit tests and suites, and run them (the default for mutations)
+//   admin   also delete projects, edit telephony credentials, API keys, alert webhooks and the team
+
+/** Tables whose documents belong to a single project. */
+type ProjectScopedTable = {
+  [T in TableNames]: Doc<T> extends { projectId: Id<"projects"> } ? T : never;
+}[TableNames];
+
+const ROLE_RANK: Record<Role, number> = {
+  [ROLES.USER]: 0,
+  [ROLES.MEMBER]: 1,
+  [ROLES.ADMIN]: 2,
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Projects created before workspaces stored the auth subject ("userId|sessionId")
+ * or the user id of their creator; both forms belong to the user.
+ */
+export function isProjectOwner(project: Doc<"projects">, userId: Id<"users">): boolean {
+  return project.createdBy === userId || project.createdBy.startsWith(`${userId}|`);
+}
+
+/**
+ * Use this function internally to get the signed-in user's id, throwing if
+ * nobody is signed in.
+ */
+export const requireUserId = async (ctx: QueryCtx) => {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) throw new Error("Unauthorized");
+  return userId;
+};
+
+/**
+ * Use this function internally to get a user's role in a workspace, or null
+ * when they are not a member.
+ */
+export const getWorkspaceRole = async (
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  userId: Id<"users">
+): Promise<Role | null> => {
+  const membership = await ctx.db
+    .query("workspace_members")
+    .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", workspaceId).eq("userId", userId))
+    .unique();
+  return membership?.role ?? null;
+};
+
+/**
+ * Use this function internally to check the caller's role in a workspace,
+ * throwing when they are not a member or their role is below `role`.
+ */
+export const requireWorkspaceRole = async (ctx: QueryCtx, workspaceId: Id<"workspaces">, role: Role) => {
+  const userId = await requireUserId(ctx);
+  const current = await getWorkspaceRole(ctx, workspaceId, userId);
+  if (!current) throw new Error("Workspace not found");
+  if (!hasRole(current, role)) throw new Error(`Requires the ${role} role in this workspace`);
+  return { userId, role: current };
+};
+
+// Projects not yet moved into a workspace are administered by their creator alone
+const getProjectRole = async (ctx: QueryCtx, project: Doc<"projects">, userId: Id<"users">) => {
+  if (project.workspaceId) return await getWorkspaceRole(ctx, project.workspaceId, userId);
+  return isProjectOwner(project, userId) ? ROLES.ADMIN : null;
+};
+
+/**
+ * Use this function internally to load a project the caller can see, with
+ * their role on it. Returns null when signed out, when the project is
+ * missing, and when the caller is not in its workspace.
+ */
+export const getAccessibleProject = async (ctx: QueryCtx, projectId: Id<"projects">) => {
+  const userId = await getAuthUserId(ctx);
+  if (userId === null) return null;
+  const project = await ctx.db.get(projectId);
+  const role = project && (await getProjectRole(ctx, project, userId));
+  return project && role ? { ...project, role } : null;
+};
+
+/**
+ * Use this function internally to load a project the caller holds at least
+ * `role` on, throwing otherwise. Projects outside the caller's workspaces read
+ * as "not found" so their ids are not confirmed.
+ */
+export const requireProject = async (ctx: QueryCtx, projectId: Id<"projects">, role: Role = ROLES.MEMBER) => {
+  await requireUserId(ctx);
+  const project = await getAccessibleProject(ctx, projectId);
+  if (!project) throw new Error("Project not found");
+  if (!hasRole(project.role, role)) throw new Error(`Requires the ${role} role in this workspace`);
+  return project;
+};
+
+/**
+ * Use this function internally to load a project-scoped document (a job, test
+ * case, suite, run…) whose project the caller can see. Returns null otherwise.
+ */
+export const getAccessibleDoc = async <T extends ProjectScopedTable>(ctx: QueryCtx, id: Id<T>) => {
+  const doc = (await ctx.db.get(id)) as (Doc<T> & { projectId: Id<"projects"> }) | null;
+  if (!doc || !(await getAccessibleProject(ctx, doc.projectId))) return null;
+  return doc;
+};
+
+/**
+ * Use this function internally to load a project-scoped document whose
+ * project the caller holds at least `role` on, throwing "<label> not found"
+ * when they cannot see it.
+ */
+export const requireProjectDoc = async <T extends ProjectScopedTable>(
+  ctx: QueryCtx,
+  id: Id<T>,
+  label: string,
+  role: Role = ROLES.MEMBER
+) => {
+  await requireUserId(ctx);
+  const doc = await getAccessibleDoc(ctx, id);
+  if (!doc) throw new Error(`${label} not found`);
+  await requireProject(ctx, doc.projectId, role);
+  return doc;
+};
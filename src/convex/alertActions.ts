@@ -0,0 +1,51 @@
+"use node";
+
+import { createHmac } from "node:crypto";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { DELIVERY_TIMEOUT_MS } from "./alerting";
+
+// --- Action: Webhook Delivery (one POST per attempt, retries via alerts.recordAttempt) --- //
+
+export const deliver = internalAction({
+  args: { deliveryId: v.id("alert_deliveries") },
+  handler: async (ctx, args) => {
+    const target = await ctx.runQuery(internal.alerts.getDelivery, { id: args.deliveryId });
+    if (!target || target.delivery.status !== "pending") return;
+    const { delivery, rule } = target;
+
+    // Receivers verify "<timestamp>.<body>" with the rule's secret (HMAC-SHA256, hex encoded)
+    // and reject old timestamps, so a captured request cannot be replayed later
+    const timestamp = String(Date.now());
+    const signature = createHmac("sha256", rule.secret).update(`${timestamp}.${delivery.payload}`).digest("hex");
+
+    try {
+      const response = await fetch(rule.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "CX-Navigator-Webhooks",
+          "X-CX-Navigator-Event": delivery.event,
+          "X-CX-Navigator-Delivery": delivery._id,
+          "X-CX-Navigator-Timestamp": timestamp,
+          "X-CX-Navigator-Signature": `sha256=${signature}`,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      await ctx.runMutation(internal.alerts.recordAttempt, {
+        id: delivery._id,
+        ok: response.ok,
+        responseStatus: response.status,
+        error: response.ok ? undefined : `HTTP ${response.status} ${response.statusText}`.trim(),
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.alerts.recordAttempt, {
+        id: delivery._id,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+});
@@ -0,0 +1,103 @@
+import type { AlertCondition } from "./schema";
+
+// --- Alert Rules (webhook notifications for finished runs) --- //
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+export const DELIVERY_TIMEOUT_MS = 10_000;
+const RETRY_BASE_MS = 30_000;
+
+// Labels and threshold units, in the order the rule form offers them
+export const ALERT_CONDITIONS: { condition: AlertCondition; label: string; unit?: string }[] = [
+  { condition: "any_failure", label: "Any failure" },
+  { condition: "consecutive_failures", label: "Consecutive failures", unit: "runs" },
+  { condition: "pass_rate", label: "Pass rate below", unit: "%" },
+  { condition: "latency", label: "Prompt latency above", unit: "ms" },
+];
+
+export type AlertRuleSettings = {
+  name: string;
+  condition: AlertCondition;
+  threshold?: number;
+  webhookUrl: string;
+};
+
+/** Throws with a readable message when the rule could never fire or be delivered. */
+export function validateAlertRule(rule: AlertRuleSettings) {
+  if (!rule.name.trim()) throw new Error("Alert rule name is required");
+
+  let url: URL;
+  try {
+    url = new URL(rule.webhookUrl);
+  } catch {
+    throw new Error(`Invalid webhook URL "${rule.webhookUrl}"`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error("Webhook URL must use http or https");
+  }
+
+  const threshold = rule.threshold;
+  if (rule.condition === "any_failure") return;
+  if (threshold === undefined || !Number.isFinite(threshold)) {
+    throw new Error("This condition needs a threshold");
+  }
+  if (rule.condition === "consecutive_failures" && (!Number.isInteger(threshold) || threshold < 1)) {
+    throw new Error("Consecutive failures must be a whole number of runs, at least 1");
+  }
+  if (rule.condition === "pass_rate" && (threshold <= 0 || threshold > 100)) {
+    throw new Error("Pass rate threshold must be a percentage between 0 and 100");
+  }
+  if (rule.condition === "latency" && threshold <= 0) {
+    throw new Error("Latency threshold must be a positive number of milliseconds");
+  }
+}
+
+export type RunOutcome = {
+  tests: { status: string; stepResults?: { latencyMs?: number }[] }[];
+  unfinished: number; // tests a failed run never reported; each counts as a failure
+  previousFailures: number; // failed runs in a row of the same suite or test just before this one
+};
+
+export function slowestPromptMs(outcome: RunOutcome): number | undefined {
+  const latencies = outcome.tests.flatMap((t) =>
+    (t.stepResults ?? []).flatMap((s) => (s.latencyMs === undefined ? [] : [s.latencyMs]))
+  );
+  return latencies.length > 0 ? Math.max(...latencies) : undefined;
+}
+
+/**
+ * Why the rule fires for a finished run, or null when it does not. A failure
+ * streak fires once, on the run that reaches the threshold, rather than on
+ * every failed run after it.
+ */
+export function alertReason(rule: AlertRuleSettings, outcome: RunOutcome): string | null {
+  const failed = outcome.tests.filter((t) => t.status !== "pass").length + outcome.unfinished;
+  const total = outcome.tests.length + outcome.unfinished;
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.condition) {
+    case "any_failure":
+      return failed > 0 ? `${failed} of ${total} test(s) failed` : null;
+    case "consecutive_failures": {
+      const streak = failed > 0 ? outcome.previousFailures + 1 : 0;
+      return streak === threshold ? `${streak} consecutive failed run(s)` : null;
+    }
+    case "pass_rate": {
+      if (total === 0) return null;
+      const passRate = ((total - failed) / total) * 100;
+      return passRate < threshold
+        ? `Pass rate ${Math.round(passRate)}% is below ${threshold}%`
+        : null;
+    }
+    case "latency": {
+      const slowest = slowestPromptMs(outcome);
+      return slowest !== undefined && slowest > threshold
+        ? `Prompt latency ${slowest}ms is above ${threshold}ms`
+        : null;
+    }
+  }
+}
+
+/** Delay before retrying after failed attempt number `attempt`: 30s, 1m, 2m, 4m. */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_MS * 2 ** (attempt - 1);
+}
@@ -0,0 +1,78 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { ROLES } from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Deliveries stay queued instead of POSTing
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    await ctx.db.insert("alert_rules", {
+      projectId,
+      name: "Twice in a row",
+      condition: "consecutive_failures",
+      threshold: 2,
+      webhookUrl: "https://hooks.example.com/alerts",
+      secret: "whsec_test",
+      enabled: true,
+    });
+    const [billing, sales] = await Promise.all(
+      ["Billing", "Sales"].map((title) =>
+        ctx.db.insert("test_cases", { projectId, title, steps: [], status: "approved", tags: [] })
+      )
+    );
+    return { projectId, billing, sales };
+  });
+  return { t, ...ids };
+}
+
+type Setup = Awaited<ReturnType<typeof setup>>;
+
+/** A finished single run of one test. */
+async function singleRun({ t, projectId }: Setup, testCaseId: Id<"test_cases">, status: string) {
+  return await t.run(async (ctx) => {
+    const runId = await ctx.db.insert("test_runs", { projectId, status, startTime: Date.now() });
+    await ctx.db.insert("test_results", { runId, testCaseId, status: "fail", logs: [], duration: 1000 });
+    return runId;
+  });
+}
+
+describe("evaluateRun", () => {
+  test("counts a failure streak from earlier runs of the same test only", async () => {
+    const project = await setup();
+    const { t, billing, sales } = project;
+    const deliveries = () => t.run((ctx) => ctx.db.query("alert_deliveries").collect());
+
+    await singleRun(project, sales, "failed");
+    const first = await singleRun(project, billing, "completed");
+    await t.mutation(internal.alerts.evaluateRun, { runId: first });
+    expect(await deliveries()).toHaveLength(0);
+
+    const second = await singleRun(project, billing, "completed");
+    await t.mutation(internal.alerts.evaluateRun, { runId: second });
+    expect(await deliveries()).toMatchObject([{ runId: second, event: "run.alert" }]);
+  });
+});
@@ -0,0 +1,345 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, MutationCtx, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAccessibleProject, requireProject, requireProjectDoc } from "./access";
+import {
+  alertReason,
+  MAX_DELIVERY_ATTEMPTS,
+  retryDelayMs,
+  RunOutcome,
+  slowestPromptMs,
+  validateAlertRule,
+} from "./alerting";
+import { maskValue } from "./inputVault";
+import { alertConditionValidator, ROLES } from "./schema";
+
+const ruleFields = {
+  name: v.string(),
+  condition: alertConditionValidator,
+  threshold: v.optional(v.number()),
+  webhookUrl: v.string(),
+};
+
+// Runs searched back through when counting a failure streak
+const HISTORY_LIMIT = 50;
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return "whsec_" + Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function queueDelivery(
+  ctx: MutationCtx,
+  rule: Doc<"alert_rules">,
+  event: string,
+  payload: object,
+  runId?: Id<"test_runs">
+) {
+  const deliveryId = await ctx.db.insert("alert_deliveries", {
+    projectId: rule.projectId,
+    ruleId: rule._id,
+    runId,
+    event,
+    payload: JSON.stringify(payload),
+    status: "pending",
+    attempts: 0,
+  });
+  await ctx.scheduler.runAfter(0, internal.alertActions.deliver, { deliveryId });
+  return deliveryId;
+}
+
+export const create = mutation({
+  args: { projectId: v.id("projects"), ...ruleFields },
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, ROLES.ADMIN);
+
+    validateAlertRule(args);
+    return await ctx.db.insert("alert_rules", {
+      ...args,
+      name: args.name.trim(),
+      threshold: args.condition === "any_failure" ? undefined : args.threshold,
+      secret: generateSecret(),
+      enabled: true,
+    });
+  },
+});
+
+export const update = mutation({
+  args: { id: v.id("alert_rules"), ...ruleFields },
+  handler: async (ctx, args) => {
+    const { id, ...fields } = args;
+    await requireProjectDoc(ctx, id, "Alert rule", ROLES.ADMIN);
+    validateAlertRule(fields);
+    // An undefined threshold removes it when switching to any_failure
+    await ctx.db.patch(id, {
+      ...fields,
+      name: fields.name.trim(),
+      threshold: fields.condition === "any_failure" ? undefined : fields.threshold,
+    });
+  },
+});
+
+export const setEnabled = mutation({
+  args: { id: v.id("alert_rules"), enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Alert rule", ROLES.ADMIN);
+    await ctx.db.patch(args.id, { enabled: args.enabled });
+  },
+});
+
+// Receivers holding the old secret reject deliveries until they are updated
+export const rotateSecret = mutation({
+  args: { id: v.id("alert_rules") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Alert rule", ROLES.ADMIN);
+    await ctx.db.patch(args.id, { secret: generateSecret() });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("alert_rules") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Alert rule", ROLES.ADMIN);
+
+    const deliveries = await ctx.db
+      .query("alert_deliveries")
+      .withIndex("by_rule", (q) => q.eq("ruleId", args.id))
+      .collect();
+    for (const delivery of deliveries) await ctx.db.delete(delivery._id);
+    await ctx.db.delete(args.id);
+  },
+});
+
+/** Sends a sample payload to the rule's webhook, whether or not the rule is enabled. */
+export const testFire = mutation({
+  args: { id: v.id("alert_rules") },
+  handler: async (ctx, args) => {
+    const rule = await requireProjectDoc(ctx, args.id, "Alert rule", ROLES.ADMIN);
+    const project = await ctx.db.get(rule.projectId);
+
+    return await queueDelivery(ctx, rule, "test", {
+      event: "test",
+      rule: { id: rule._id, name: rule.name, condition: rule.condition, threshold: rule.threshold },
+      reason: "Test delivery from CX Navigator",
+      project: { id: rule.projectId, name: project?.name },
+      sentAt: Date.now(),
+    });
+  },
+});
+
+// --- Run Evaluation (scheduled when a run completes, or fails in execution.failStaleRun) --- //
+
+/** Finished runs of the same suite (or the same test, for single runs) that failed in a row before this one. */
+async function countPreviousFailures(
+  ctx: MutationCtx,
+  run: Doc<"test_runs">,
+  results: Doc<"test_results">[]
+) {
+  const testCaseId = results[0]?.testCaseId;
+  const history = await ctx.db
+    .query("test_runs")
+    .withIndex("by_project", (q) => q.eq("projectId", run.projectId))
+    .order("desc")
+    .take(HISTORY_LIMIT);
+
+  let streak = 0;
+  for (const previous of history) {
+    if (previous._creationTime >= run._creationTime || previous.status === "running") continue;
+    if (previous.campaignId !== run.campaignId) continue;
+
+    let failed: boolean;
+    if (run.campaignId) {
+      failed = previous.status === "failed" || (previous.failed ?? 0) > 0;
+    } else {
+      // Single runs only name their test through their result; one that died before reporting can't be matched
+      const previousResults = await ctx.db
+        .query("test_results")
+        .withIndex("by_run", (q) => q.eq("runId", previous._id))
+        .collect();
+      if (!previousResults.some((r) => r.testCaseId === testCaseId)) continue;
+      failed = previous.status === "failed" || previousResults.some((r) => r.status !== "pass");
+    }
+    if (!failed) break;
+    streak++;
+  }
+  return streak;
+}
+
+export const evaluateRun = internalMutation({
+  args: { runId: v.id("test_runs") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || run.status === "running") return;
+
+    const rules = (
+      await ctx.db
+        .query("alert_rules")
+        .withIndex("by_project", (q) => q.eq("projectId", run.projectId))
+        .collect()
+    ).filter((rule) => rule.enabled);
+    if (rules.length === 0) return;
+
+    const results = await ctx.db
+      .query("test_results")
+      .withIndex("by_run", (q) => q.eq("runId", run._id))
+      .collect();
+    const outcome: RunOutcome = {
+      tests: results,
+      unfinished: run.status === "failed" ? Math.max(0, (run.totalTests ?? 1) - results.length) : 0,
+      previousFailures: rules.some((r) => r.condition === "consecutive_failures")
+        ? await countPreviousFailures(ctx, run, results)
+        : 0,
+    };
+
+    const fired = rules.flatMap((rule) => {
+      const reason = alertReason(rule, outcome);
+      return reason ? [{ rule, reason }] : [];
+    });
+    if (fired.length === 0) return;
+
+    const project = await ctx.db.get(run.projectId);
+    const suiteId = run.campaignId ? ctx.db.normalizeId("test_suites", run.campaignId) : null;
+    const suite = suiteId ? await ctx.db.get(suiteId) : null;
+    const failures = await Promise.all(
+      results
+        .filter((result) => result.status !== "pass")
+        .map(async (result) => {
+          const steps = result.stepResults ?? [];
+          return {
+            testCaseId: result.testCaseId,
+            title: (await ctx.db.get(result.testCaseId))?.title,
+            duration: result.duration,
+            recordingUrl: result.recordingUrl,
+            failingSteps: steps
+              .filter((s) => s.status !== "pass")
+              .map((s) => ({ step: s.stepIndex + 1, action: s.action, expected: s.expected, actual: s.actual })),
+            // What the IVR said after each input; listen steps only repeat it
+            transcript: steps.filter((s) => s.action !== "listen" && s.actual).map((s) => s.actual),
+            logs: result.logs,
+          };
+        })
+    );
+    const runSummary = {
+      id: run._id,
+      status: run.status,
+      summary: run.summary,
+      trigger: run.trigger ?? "manual",
+      suite: suite ? { id: suite._id, name: suite.name } : undefined,
+      startTime: run.startTime,
+      endTime: run.endTime,
+      totalTests: results.length + outcome.unfinished,
+      passed: results.length - failures.length,
+      failed: failures.length + outcome.unfinished,
+      slowestPromptMs: slowestPromptMs(outcome),
+    };
+
+    for (const { rule, reason } of fired) {
+      await queueDelivery(
+        ctx,
+        rule,
+        "run.alert",
+        {
+          event: "run.alert",
+          rule: { id: rule._id, name: rule.name, condition: rule.condition, threshold: rule.threshold },
+          reason,
+          project: { id: run.projectId, name: project?.name },
+          run: runSummary,
+          failures,
+          sentAt: Date.now(),
+        },
+        run._id
+      );
+    }
+  },
+});
+
+// --- Delivery (driven by alertActions.deliver) --- //
+
+export const getDelivery = internalQuery({
+  args: { id: v.id("alert_deliveries") },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    const rule = delivery && (await ctx.db.get(delivery.ruleId));
+    return delivery && rule ? { delivery, rule } : null;
+  },
+});
+
+/** Records one POST attempt, scheduling a retry with backoff until MAX_DELIVERY_ATTEMPTS. */
+export const recordAttempt = internalMutation({
+  args: {
+    id: v.id("alert_deliveries"),
+    ok: v.boolean(),
+    responseStatus: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.id);
+    if (!delivery || delivery.status !== "pending") return;
+
+    const attempts = delivery.attempts + 1;
+    if (args.ok) {
+      await ctx.db.patch(args.id, {
+        status: "delivered",
+        attempts,
+        responseStatus: args.responseStatus,
+        error: undefined,
+        nextAttemptAt: undefined,
+        deliveredAt: Date.now(),
+      });
+    } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      await ctx.db.patch(args.id, {
+        status: "failed",
+        attempts,
+        responseStatus: args.responseStatus,
+        error: args.error,
+        nextAttemptAt: undefined,
+      });
+    } else {
+      const delay = retryDelayMs(attempts);
+      await ctx.db.patch(args.id, {
+        attempts,
+        responseStatus: args.responseStatus,
+        error: args.error,
+        nextAttemptAt: Date.now() + delay,
+      });
+      await ctx.scheduler.runAfter(delay, internal.alertActions.deliver, { deliveryId: args.id });
+    }
+  },
+});
+
+// --- Queries --- //
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const project = await getAccessibleProject(ctx, args.projectId);
+    if (!project) return [];
+
+    const rules = await ctx.db
+      .query("alert_rules")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    // Signing secrets are for the admins who configure the receivers
+    return project.role === ROLES.ADMIN ? rules : rules.map((rule) => ({ ...rule, secret: maskValue(rule.secret) }));
+  },
+});
+
+export const listDeliveries = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const deliveries = await ctx.db
+      .query("alert_deliveries")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .take(50);
+    return await Promise.all(
+      deliveries.map(async (delivery) => ({
+        ...delivery,
+        ruleName: (await ctx.db.get(delivery.ruleId))?.name,
+      }))
+    );
+  },
+});
@@ -0,0 +1,106 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { getAccessibleProject, requireProject, requireProjectDoc, requireUserId } from "./access";
+import { apiKeyPermissionValidator, ROLES } from "./schema";
+
+const KEY_PREFIX = "cxn_";
+const SHOWN_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** SHA-256 hex of a full API key, the only form keys are stored or looked up in. */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return toHex(new Uint8Array(digest));
+}
+
+/** The key is returned here and never again; only its hash is stored. */
+export const create = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    permissions: v.array(apiKeyPermissionValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    await requireProject(ctx, args.projectId, ROLES.ADMIN);
+
+    const name = args.name.trim();
+    const permissions = [...new Set(args.permissions)];
+    if (!name) throw new Error("API key name is required");
+    if (permissions.length === 0) throw new Error("API key needs at least one permission");
+
+    const key = KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(20)));
+    const id = await ctx.db.insert("api_keys", {
+      projectId: args.projectId,
+      name,
+      prefix: key.slice(0, SHOWN_PREFIX_LENGTH),
+      hashedKey: await hashApiKey(key),
+      permissions,
+      createdBy: userId,
+    });
+    return { id, key };
+  },
+});
+
+// Revoked keys stay listed so their last use can still be seen
+export const revoke = mutation({
+  args: { id: v.id("api_keys") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "API key", ROLES.ADMIN);
+    await ctx.db.patch(args.id, { revokedAt: Date.now() });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("api_keys") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "API key", ROLES.ADMIN);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// --- Used by publicApi.ts --- //
+
+export const getByHash = internalQuery({
+  args: { hashedKey: v.string() },
+  handler: async (ctx, args) => {
+    const key = await ctx.db
+      .query("api_keys")
+      .withIndex("by_hashed_key", (q) => q.eq("hashedKey", args.hashedKey))
+      .unique();
+    return key && key.revokedAt === undefined ? key : null;
+  },
+});
+
+export const markUsed = internalMutation({
+  args: { id: v.id("api_keys") },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.id, { lastUsedAt: Date.now() });
+  },
+});
+
+// --- Queries --- //
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const keys = await ctx.db
+      .query("api_keys")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return keys.map((key) => ({
+      _id: key._id,
+      _creationTime: key._creationTime,
+      name: key.name,
+      prefix: key.prefix,
+      permissions: key.permissions,
+      lastUsedAt: key.lastUsedAt,
+      revokedAt: key.revokedAt,
+    }));
+  },
+});
@@ -0,0 +1,151 @@
+import { normalizeText, promptSimilarity } from "./prompts";
+import type { Assertion, AssertionType, TestStep } from "./schema";
+
+// --- Listen Step Assertions --- //
+
+export const ASSERTION_TYPES: AssertionType[] = [
+  "exact",
+  "contains",
+  "regex",
+  "fuzzy",
+  "any-of",
+  "confidence",
+  "latency",
+  "duration",
+];
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+/** What a listen step is checked against: the last prompt heard. */
+export type HeardPrompt = {
+  transcript: string;
+  confidence: number;
+  durationMs: number;
+  latencyMs: number;
+};
+
+export type AssertionOutcome = { pass: boolean; reason: string };
+
+/** Why `assertion` can never be evaluated, or null. `stepValue` is the listen step's value. */
+export function assertionError(assertion: Assertion, stepValue: string): string | null {
+  const text = assertion.value ?? stepValue;
+  switch (assertion.type) {
+    case "exact":
+    case "fuzzy":
+      if (!stepValue.trim()) return `${assertion.type} needs the expected prompt as the step value`;
+      break;
+    case "contains":
+      if (!text.trim()) return "contains needs the text to look for";
+      break;
+    case "regex":
+      if (!text.trim()) return "regex needs a pattern";
+      try {
+        new RegExp(text, "i");
+      } catch {
+        return `invalid regex /${text}/`;
+      }
+      break;
+    case "any-of":
+      if (!assertion.values?.some((alt) => alt.trim())) return "any-of needs at least one alternative";
+      break;
+    case "confidence":
+      if (assertion.threshold === undefined) return "confidence needs a minimum";
+      break;
+    case "latency":
+    case "duration":
+      if (assertion.minMs === undefined && assertion.maxMs === undefined) {
+        return `${assertion.type} needs a minimum or maximum in ms`;
+      }
+      if ((assertion.minMs ?? 0) < 0 || (assertion.maxMs ?? 0) < 0) return `${assertion.type} bounds cannot be negative`;
+      if (assertion.minMs !== undefined && assertion.maxMs !== undefined && assertion.minMs > assertion.maxMs) {
+        return `${assertion.type} minimum is above its maximum`;
+      }
+      break;
+  }
+  const threshold = assertion.threshold;
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+    return `${assertion.type} threshold must be between 0 and 1`;
+  }
+  return null;
+}
+
+function checkBounds(label: string, ms: number, minMs?: number, maxMs?: number): AssertionOutcome {
+  if (minMs !== undefined && ms < minMs) return { pass: false, reason: `${label} ${ms}ms below ${minMs}ms` };
+  if (maxMs !== undefined && ms > maxMs) return { pass: false, reason: `${label} ${ms}ms above ${maxMs}ms` };
+  return { pass: true, reason: `${label} ${ms}ms within ${minMs ?? 0}-${maxMs ?? "∞"}ms` };
+}
+
+export function evaluateAssertion(
+  assertion: Assertion,
+  stepValue: string,
+  heard: HeardPrompt
+): AssertionOutcome {
+  const text = assertion.value ?? stepValue;
+  switch (assertion.type) {
+    case "exact": {
+      const pass = normalizeText(heard.transcript) === normalizeText(stepValue);
+      return { pass, reason: pass ? "matches expected prompt" : `expected "${stepValue}"` };
+    }
+    case "contains": {
+      const pass = normalizeText(heard.transcript).includes(normalizeText(text));
+      return { pass, reason: `${pass ? "contains" : "does not contain"} "${text}"` };
+    }
+    case "regex": {
+      const pass = new RegExp(text, "i").test(heard.transcript);
+      return { pass, reason: `${pass ? "matches" : "does not match"} /${text}/i` };
+    }
+    case "fuzzy": {
+      const threshold = assertion.threshold ?? DEFAULT_FUZZY_THRESHOLD;
+      const score = promptSimilarity(heard.transcript, stepValue);
+      const pass = score >= threshold;
+      return { pass, reason: `similarity ${score.toFixed(2)} ${pass ? ">=" : "<"} ${threshold}` };
+    }
+    case "any-of": {
+      const alternatives = (assertion.values ?? []).filter((alt) => alt.trim());
+      const index = alternatives.findIndex((alt) => normalizeText(alt) === normalizeText(heard.transcript));
+      return index === -1
+        ? { pass: false, reason: `matches none of ${alternatives.length} alternative(s)` }
+        : { pass: true, reason: `matches alternative ${index + 1} of ${alternatives.length}` };
+    }
+    case "confidence": {
+      const minimum = assertion.threshold ?? 0;
+      const pass = heard.confidence >= minimum;
+      return { pass, reason: `confidence ${heard.confidence.toFixed(2)} ${pass ? ">=" : "<"} ${minimum}` };
+    }
+    case "latency":
+      return checkBounds("latency", Math.round(heard.latencyMs), assertion.minMs, assertion.maxMs);
+    case "duration":
+      return checkBounds("duration", Math.round(heard.durationMs), assertion.minMs, assertion.maxMs);
+  }
+}
+
+/**
+ * Checks a listen step against the last prompt heard. The reason names what
+ * was heard and the outcome of every assertion, e.g.
+ * `Heard "Welcome…" — contains "billing": pass; latency 2400ms above 2000ms: fail`.
+ */
+export function evaluateListen(step: TestStep, heard: HeardPrompt): AssertionOutcome {
+  const assertions: Assertion[] = step.assertions?.length ? step.assertions : [{ type: "exact" }];
+  const outcomes = assertions.map((a) => evaluateAssertion(a, step.value, heard));
+  return {
+    pass: outcomes.every((o) => o.pass),
+    reason: `Heard "${heard.transcript}" — ${outcomes
+      .map((o) => `${o.reason}: ${o.pass ? "pass" : "fail"}`)
+      .join("; ")}`,
+  };
+}
+
+// Assertions about the prompt's words, as opposed to how it was heard
+const TEXT_ASSERTIONS = new Set<AssertionType>(["exact", "contains", "regex", "fuzzy", "any-of"]);
+
+/**
+ * Whether a listen step's text assertions accept `prompt`, such as one heard by
+ * discovery. Confidence, latency and duration only apply to live calls.
+ */
+export function acceptsPromptText(step: TestStep, prompt: string): boolean {
+  const assertions: Assertion[] = step.assertions?.length ? step.assertions : [{ type: "exact" }];
+  const heard = { transcript: prompt, confidence: 1, durationMs: 0, latencyMs: 0 };
+  return assertions
+    .filter((a) => TEXT_ASSERTIONS.has(a.type))
+    .every((a) => evaluateAssertion(a, step.value, heard).pass);
+}
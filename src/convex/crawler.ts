@@ -0,0 +1,549 @@
+import type { NavigationKeys } from "./menuOptions";
+import {
+  DEFAULT_MIN_FUZZY_TOKENS,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  fingerprintPrompt,
+  matchFingerprint,
+  matchPrompt,
+} from "./prompts";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { CrawlMode, CrawlPolicy } from "./schema";
+import type { AudioProcessingResult, TelephonySession } from "./telephony";
+
+// --- Crawl Policy (budgets & digit filters) --- //
+
+export const DEFAULT_MAX_DEPTH = 5;
+
+export type PruneReason =
+  | "maxDepth"
+  | "maxNodes"
+  | "maxCalls"
+  | "maxDuration"
+  | "maxOptionsPerMenu"
+  | "digitFilter";
+
+export function validateCrawlPolicy(policy: CrawlPolicy) {
+  const limits = [
+    ["maxDepth", policy.maxDepth],
+    ["maxNodes", policy.maxNodes],
+    ["maxCalls", policy.maxCalls],
+    ["maxDurationSeconds", policy.maxDurationSeconds],
+    ["maxOptionsPerMenu", policy.maxOptionsPerMenu],
+    ["maxProbedMenus", policy.maxProbedMenus],
+    ["minFuzzyTokens", policy.minFuzzyTokens],
+  ] as const;
+  for (const [name, value] of limits) {
+    const min = name === "maxDepth" ? 0 : 1;
+    if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+      throw new Error(`Invalid crawl policy: ${name} must be a whole number of at least ${min}`);
+    }
+  }
+  const threshold = policy.similarityThreshold;
+  if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+    throw new Error("Invalid crawl policy: similarityThreshold must be between 0 and 1");
+  }
+  const allowed = new Set(policy.allowedDigits ?? []);
+  const overlap = (policy.deniedDigits ?? []).filter((d) => allowed.has(d));
+  if (overlap.length > 0) {
+    throw new Error(`Invalid crawl policy: digits ${overlap.join(", ")} are both allowed and denied`);
+  }
+}
+
+/**
+ * Applies the per-menu digit filters and option limit. Returns the options to
+ * explore along with how many were dropped for each reason.
+ */
+export function applyOptionPolicy<T extends { dtmf: string }>(
+  options: T[],
+  policy: CrawlPolicy
+): { options: T[]; filtered: number; overLimit: number } {
+  const allowed = policy.allowedDigits?.length ? new Set(policy.allowedDigits) : null;
+  const denied = new Set(policy.deniedDigits ?? []);
+  const permitted = options.filter(
+    (o) => (!allowed || allowed.has(o.dtmf)) && !denied.has(o.dtmf)
+  );
+  const limit = policy.maxOptionsPerMenu ?? permitted.length;
+  return {
+    options: permitted.slice(0, limit),
+    filtered: options.length - permitted.length,
+    overLimit: Math.max(0, permitted.length - limit),
+  };
+}
+
+// --- Stale Jobs (crawl actions that stopped checkpointing) --- //
+
+// The crawl checkpoints before every node and Convex stops an action after 10 minutes
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+/** True for a queued or running job with no checkpoint for STALE_JOB_MS: its crawl action is gone. */
+export function isStaleJob(job: Doc<"discovery_jobs">, now: number): boolean {
+  return (
+    (job.status === "running" || job.status === "queued") &&
+    (job.lastProgressAt ?? job.startTime) < now - STALE_JOB_MS
+  );
+}
+
+// --- Path Steps (DTMF keys, spoken utterances, vault credentials or silence) --- //
+
+// Paths stay plain string arrays so saved resume states remain readable;
+// other steps carry a prefix no DTMF key can have.
+const SPEECH_STEP_PREFIX = "say:";
+const CREDENTIAL_STEP_PREFIX = "vault:";
+const WAIT_STEP_PREFIX = "wait:";
+
+export function speechStep(utterance: string): string {
+  return `${SPEECH_STEP_PREFIX}${utterance}`;
+}
+
+/** The utterance of a spoken step, or undefined for a DTMF step. */
+export function stepUtterance(step: string): string | undefined {
+  return step.startsWith(SPEECH_STEP_PREFIX) ? step.slice(SPEECH_STEP_PREFIX.length) : undefined;
+}
+
+/**
+ * Refers to an input vault credential by name, so paths, resume states and
+ * node metadata never hold the value itself.
+ */
+export function credentialStep(name: string, terminator = ""): string {
+  return `${CREDENTIAL_STEP_PREFIX}${terminator}:${name}`;
+}
+
+export function stepCredential(step: string): { name: string; terminator: string } | undefined {
+  if (!step.startsWith(CREDENTIAL_STEP_PREFIX)) return undefined;
+  const rest = step.slice(CREDENTIAL_STEP_PREFIX.length);
+  const separator = rest.indexOf(":");
+  return { terminator: rest.slice(0, separator), name: rest.slice(separator + 1) };
+}
+
+/** Staying silent for `seconds`, to hear the IVR's no-input handling. */
+export function waitStep(seconds: number): string {
+  return `${WAIT_STEP_PREFIX}${seconds}`;
+}
+
+export function stepWait(step: string): number | undefined {
+  return step.startsWith(WAIT_STEP_PREFIX) ? Number(step.slice(WAIT_STEP_PREFIX.length)) : undefined;
+}
+
+/** Node label for the step that reached it. */
+export function describeStep(step: string): string {
+  const utterance = stepUtterance(step);
+  if (utterance !== undefined) return `Say "${utterance}"`;
+  const credential = stepCredential(step);
+  if (credential) return `Enter ${credential.name}`;
+  const seconds = stepWait(step);
+  if (seconds !== undefined) return `No input (${seconds}s)`;
+  return `Option ${step}`;
+}
+
+/** Sends one step; `credentials` maps vault credential names to their values. */
+export function sendStep(
+  session: TelephonySession,
+  step: string,
+  credentials: Record<string, string> = {}
+): Promise<AudioProcessingResult> {
+  const utterance = stepUtterance(step);
+  if (utterance !== undefined) return session.speak(utterance);
+
+  const seconds = stepWait(step);
+  if (seconds !== undefined) return session.wait(seconds);
+
+  const credential = stepCredential(step);
+  if (credential) {
+    const value = credentials[credential.name];
+    if (value === undefined) {
+      throw new Error(`Input vault credential "${credential.name}" no longer exists`);
+    }
+    return session.sendDtmf(value.endsWith(credential.terminator) ? value : value + credential.terminator);
+  }
+
+  return session.sendDtmf(step);
+}
+
+// --- Error Probes (invalid keys, no input, retry limits) --- //
+
+export const DEFAULT_NO_INPUT_SECONDS = 8;
+
+// Invalid entries in a row before most IVRs give up (disconnect or transfer)
+export const MAX_RETRY_ATTEMPTS = 3;
+
+// Each probed menu costs a silence and up to MAX_RETRY_ATTEMPTS key presses
+export const DEFAULT_MAX_PROBED_MENUS = 10;
+
+const PROBE_KEYS = ["9", "8", "7", "6", "5", "4", "3", "2", "1", "0"];
+
+/**
+ * A key the menu did not advertise, preferring high digits that are least
+ * likely to be hidden options. Navigation keys are never picked.
+ */
+export function pickUnadvertisedKey(
+  advertised: (string | undefined)[],
+  navigation: NavigationKeys = {}
+): string | undefined {
+  const taken = new Set([...advertised, navigation.mainMenu, navigation.previousMenu]);
+  return PROBE_KEYS.find((key) => !taken.has(key));
+}
+
+export type ErrorProbe = {
+  outcome: "invalid_input" | "timeout";
+  attempt: number; // 1-based; invalid_input probes repeat up to MAX_RETRY_ATTEMPTS
+};
+
+// --- Loop Detection (exact anywhere, fuzzy only along the current path) --- //
+
+export type VisitedNode = {
+  nodeId: Id<"ivr_nodes">;
+  parentId?: Id<"ivr_nodes">;
+  fingerprint: string;
+  content: string;
+};
+
+/**
+ * Finds the crawled node a prompt loops back to. Any node matches on its exact
+ * fingerprint, but only the menus above `parentId` match fuzzily: sibling
+ * prompts often differ by a single word ("You selected billing" / "You
+ * selected sales") and would otherwise be merged.
+ */
+export function findLoop(
+  text: string,
+  visited: Map<Id<"ivr_nodes">, VisitedNode>,
+  parentId: Id<"ivr_nodes"> | undefined,
+  threshold: number,
+  minTokens: number
+): { candidate: VisitedNode; score: number } | null {
+  const exact = matchFingerprint(text, [...visited.values()]);
+  if (exact) return exact;
+
+  const ancestors: VisitedNode[] = [];
+  let ancestor = parentId && visited.get(parentId);
+  while (ancestor) {
+    ancestors.push(ancestor);
+    ancestor = ancestor.parentId && visited.get(ancestor.parentId);
+  }
+  return matchPrompt(text, ancestors, threshold, minTokens);
+}
+
+// --- Crawl Frontier (DFS stack / BFS queue / priority order) --- //
+
+export type FrontierItem = {
+  path: string[]; // DTMF keys, speechStep() utterances, credentialStep() entries and waitStep() silences
+  parentId?: Id<"ivr_nodes">;
+  depth: number;
+  label?: string; // Option label the path's last step was advertised with
+  priority?: number; // "priority" mode score, inherited by descendants
+  probe?: ErrorProbe; // Recorded as an error node and never expanded
+};
+
+/** Weight of the first keyword the label matches; earlier keywords weigh more. */
+export function scoreOption(label: string, keywords: string[]): number {
+  const lower = label.toLowerCase();
+  const index = keywords.findIndex((k) => k.trim() && lower.includes(k.trim().toLowerCase()));
+  return index === -1 ? 0 : keywords.length - index;
+}
+
+/**
+ * Pending crawl branches, persisted as `resumeState`.
+ *
+ * The serialized array keeps the legacy DFS layout (next item last) for "dfs"
+ * and processing order (next item first) for "bfs" and "priority", so a paused
+ * job resumes exactly where it stopped in any mode.
+ */
+export class CrawlFrontier {
+  private items: FrontierItem[];
+  private mode: CrawlMode;
+  private keywords: string[];
+
+  constructor(mode: CrawlMode, keywords: string[] = [], items: FrontierItem[] = []) {
+    this.mode = mode;
+    this.keywords = keywords;
+    this.items = items;
+  }
+
+  static restore(mode: CrawlMode, keywords: string[], resumeState: string): CrawlFrontier {
+    return new CrawlFrontier(mode, keywords, JSON.parse(resumeState));
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  next(): FrontierItem | undefined {
+    return this.mode === "dfs" ? this.items.pop() : this.items.shift();
+  }
+
+  /** Puts an item back so that it is the next one returned. */
+  requeue(item: FrontierItem) {
+    if (this.mode === "dfs") this.items.push(item);
+    else this.items.unshift(item);
+  }
+
+  /** Adds the options of one menu, given in the order the IVR announced them. */
+  addChildren(children: FrontierItem[]) {
+    if (this.mode === "dfs") {
+      for (let i = children.length - 1; i >= 0; i--) this.items.push(children[i]);
+      return;
+    }
+    if (this.mode === "bfs") {
+      this.items.push(...children);
+      return;
+    }
+    for (const child of children) {
+      const priority = Math.max(child.priority ?? 0, scoreOption(child.label ?? "", this.keywords));
+      const scored = { ...child, priority };
+      // Stable insert: after every item of equal or higher priority
+      const index = this.items.findIndex((item) => (item.priority ?? 0) < priority);
+      if (index === -1) this.items.push(scored);
+      else this.items.splice(index, 0, scored);
+    }
+  }
+
+  /** True when an item reaching the path with this key from `parentId` is still to be crawled. */
+  isPending(key: string, parentId?: Id<"ivr_nodes">): boolean {
+    return this.items.some((item) => item.parentId === parentId && pathKey(item.path) === key);
+  }
+
+  serialize(): string {
+    return JSON.stringify(this.items);
+  }
+}
+
+// --- Prefix-Replay Navigation (one live call, backtrack instead of redial) --- //
+
+type KnownMenu = {
+  fingerprint: string;
+  content: string;
+  durationMs: number;
+  navigation: NavigationKeys;
+};
+
+export type NavigationMetrics = {
+  callsPlaced: number;
+  probeCalls: number; // of callsPlaced, dialed for error probes and not counted against maxCalls
+  redials: number; // live call abandoned because backtracking was unavailable or failed
+  backtracks: number; // successful "main menu" / "previous menu" navigations
+  airtimeSavedMs: number; // estimated prompt time not replayed compared to redialing
+};
+
+function pathKey(path: string[]): string {
+  return path.join(">");
+}
+
+function commonPrefixLength(a: string[], b: string[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+/**
+ * Moves a single call around the IVR tree.
+ *
+ * Reaching a descendant of the current position only sends the missing steps.
+ * Reaching any other node backtracks with the "previous menu" / "main menu" keys
+ * the IVR advertised, verifying each landing prompt against its known
+ * fingerprint. When no key is advertised, or the IVR does not land where
+ * expected, the call is dropped and the full path is replayed on a fresh dial.
+ *
+ * Error probes never move the navigator: after one, it only knows which menu
+ * the call left, and returns through that menu's "main menu" key or redials.
+ */
+export class CrawlNavigator {
+  private session: TelephonySession | null = null;
+  private path: string[] = [];
+  private offPath = false; // A probe was sent from `path`; where the IVR went is unknown
+  private known = new Map<string, KnownMenu>();
+  private createSession: () => TelephonySession;
+  private log: (message: string) => Promise<void>;
+  private maxCalls: number | undefined;
+  private similarityThreshold: number;
+  private minFuzzyTokens: number;
+  private credentials: Record<string, string>;
+
+  readonly metrics: NavigationMetrics;
+
+  constructor(
+    createSession: () => TelephonySession,
+    log: (message: string) => Promise<void>,
+    options: {
+      maxCalls?: number;
+      similarityThreshold?: number;
+      minFuzzyTokens?: number;
+      credentials?: Record<string, string>;
+      metrics?: NavigationMetrics; // Saved by an earlier segment of the same crawl
+    } = {}
+  ) {
+    this.createSession = createSession;
+    this.log = log;
+    this.maxCalls = options.maxCalls;
+    this.similarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    this.minFuzzyTokens = options.minFuzzyTokens ?? DEFAULT_MIN_FUZZY_TOKENS;
+    this.credentials = options.credentials ?? {};
+    this.metrics = options.metrics
+      ? { ...options.metrics }
+      : { callsPlaced: 0, probeCalls: 0, redials: 0, backtracks: 0, airtimeSavedMs: 0 };
+  }
+
+  /** Records the prompt heard at `path` so later backtracks can be verified. */
+  remember(path: string[], result: AudioProcessingResult, navigation: NavigationKeys) {
+    this.known.set(pathKey(path), {
+      fingerprint: fingerprintPrompt(result.transcript),
+      content: result.transcript,
+      durationMs: result.durationMs,
+      navigation,
+    });
+  }
+
+  /** Returns null when `target` can only be reached by a dial the call budget does not allow. */
+  async goto(target: string[], forProbe = false): Promise<AudioProcessingResult | null> {
+    if (this.session) {
+      try {
+        const result = await this.navigateLive(target);
+        if (result) return result;
+      } catch (error) {
+        await this.log(
+          `Live navigation failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      await this.release();
+      if (!forProbe && this.callBudgetExhausted()) return null;
+      this.metrics.redials++;
+    }
+    if (!forProbe && this.callBudgetExhausted()) return null;
+    return this.dialAndReplay(target, forProbe);
+  }
+
+  /**
+   * Sends an error probe from the menu at `menu`, or, with `repeat`, again on
+   * the same call right after the previous probe. Returns null when the call
+   * is gone.
+   */
+  async probe(menu: string[], step: string, repeat = false): Promise<AudioProcessingResult | null> {
+    if (repeat) {
+      if (!this.session || !this.offPath) return null;
+    } else if (!this.session || this.offPath || pathKey(this.path) !== pathKey(menu)) {
+      if (!(await this.goto(menu, true))) return null;
+    }
+
+    try {
+      const result = await sendStep(this.session!, step, this.credentials);
+      this.offPath = true;
+      return result;
+    } catch (error) {
+      await this.log(`Probe failed: ${error instanceof Error ? error.message : String(error)}`);
+      await this.release();
+      return null;
+    }
+  }
+
+  async release(): Promise<void> {
+    if (!this.session) return;
+    const session = this.session;
+    this.session = null;
+    this.path = [];
+    this.offPath = false;
+    await session.hangup();
+  }
+
+  private callBudgetExhausted(): boolean {
+    const branchCalls = this.metrics.callsPlaced - this.metrics.probeCalls;
+    return this.maxCalls !== undefined && branchCalls >= this.maxCalls;
+  }
+
+  private async dialAndReplay(target: string[], forProbe: boolean): Promise<AudioProcessingResult> {
+    this.metrics.callsPlaced++;
+    if (forProbe) this.metrics.probeCalls++;
+    await this.log(`Dialing (call #${this.metrics.callsPlaced}) for path [${target.join(",")}]`);
+
+    this.session = this.createSession();
+    let result = await this.session.dial();
+    for (const step of target) {
+      result = await sendStep(this.session, step, this.credentials);
+    }
+    this.path = [...target];
+    return result;
+  }
+
+  /** Returns null when the live call cannot reliably reach `target`. */
+  private async navigateLive(target: string[]): Promise<AudioProcessingResult | null> {
+    const session = this.session!;
+    const heard: AudioProcessingResult[] = [];
+
+    if (this.offPath) {
+      const key = this.navigationAt(this.path).mainMenu;
+      if (key === undefined) return null;
+      const result = await session.sendDtmf(key);
+      heard.push(result);
+      this.path = [];
+      this.offPath = false;
+      if (!this.isAt(this.path, result)) return null;
+      this.metrics.backtracks++;
+      await this.log(`Returned to main menu with key ${key} after a probe.`);
+      if (target.length === 0) return result;
+    }
+
+    const common = commonPrefixLength(this.path, target);
+    if (common === this.path.length && common === target.length) return null;
+
+    if (common < this.path.length) {
+      const climb = this.path.length - common;
+      const navigation = this.navigationAt(this.path);
+      const usePrevious =
+        navigation.previousMenu !== undefined &&
+        (navigation.mainMenu === undefined || climb <= common + 1);
+
+      if (usePrevious) {
+        for (let i = 0; i < climb; i++) {
+          const key = this.navigationAt(this.path).previousMenu;
+          if (key === undefined) return null;
+          const result = await session.sendDtmf(key);
+          heard.push(result);
+          this.path = this.path.slice(0, -1);
+          if (!this.isAt(this.path, result)) return null;
+        }
+        await this.log(`Backtracked ${climb} level(s) with "previous menu".`);
+      } else if (navigation.mainMenu !== undefined) {
+        const result = await session.sendDtmf(navigation.mainMenu);
+        heard.push(result);
+        this.path = [];
+        if (!this.isAt(this.path, result)) return null;
+        await this.log(`Backtracked to main menu with key ${navigation.mainMenu}.`);
+      } else {
+        return null;
+      }
+      this.metrics.backtracks++;
+    }
+
+    for (let i = this.path.length; i < target.length; i++) {
+      heard.push(await sendStep(session, target[i], this.credentials));
+      this.path = target.slice(0, i + 1);
+    }
+
+    // A redial would replay every prompt above the target; we only paid for what we heard.
+    let redialMs = 0;
+    for (let i = 0; i < target.length; i++) {
+      redialMs += this.known.get(pathKey(target.slice(0, i)))?.durationMs ?? 0;
+    }
+    const liveMs = heard.slice(0, -1).reduce((sum, r) => sum + r.durationMs, 0);
+    this.metrics.airtimeSavedMs += redialMs - liveMs;
+
+    return heard[heard.length - 1];
+  }
+
+  private isAt(path: string[], result: AudioProcessingResult): boolean {
+    const known = this.known.get(pathKey(path));
+    return (
+      known !== undefined &&
+      matchPrompt(result.transcript, [known], this.similarityThreshold, this.minFuzzyTokens) !== null
+    );
+  }
+
+  /** Navigation keys advertised at `path`, inherited from the nearest ancestor that had them. */
+  private navigationAt(path: string[]): NavigationKeys {
+    const navigation: NavigationKeys = {};
+    for (let depth = path.length; depth >= 0; depth--) {
+      const known = this.known.get(pathKey(path.slice(0, depth)));
+      if (!known) continue;
+      navigation.mainMenu ??= known.navigation.mainMenu;
+      navigation.previousMenu ??= known.navigation.previousMenu;
+    }
+    return navigation;
+  }
+}
@@ -0,0 +1,76 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+import { getAccessibleProject, requireProject, requireProjectDoc } from "./access";
+import { maskValue } from "./inputVault";
+import { credentialTypeValidator, ROLES } from "./schema";
+
+export const add = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+    type: credentialTypeValidator,
+    value: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId, ROLES.ADMIN);
+
+    const name = args.name.trim();
+    const value = args.value.replace(/[\s/-]/g, "");
+    if (!name) throw new Error("Credential name is required");
+    if (!/^[0-9*#]+$/.test(value)) {
+      throw new Error("Credential value must be DTMF keys (digits, * or #)");
+    }
+
+    const existing = await ctx.db
+      .query("test_credentials")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    if (existing.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A credential named "${name}" already exists`);
+    }
+
+    return await ctx.db.insert("test_credentials", {
+      projectId: args.projectId,
+      name,
+      type: args.type,
+      value,
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("test_credentials") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Credential", ROLES.ADMIN);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// --- Queries --- //
+
+// Values never leave the backend unmasked
+export const list = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const credentials = await ctx.db
+      .query("test_credentials")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return credentials.map(({ value, ...credential }) => ({
+      ...credential,
+      maskedValue: maskValue(value),
+    }));
+  },
+});
+
+export const listForProject = internalQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("test_credentials")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+  },
+});
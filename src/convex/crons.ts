@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Starts every monitoring schedule that has come due, see monitoring.ts
+crons.interval("dispatch monitoring schedules", { minutes: 1 }, internal.monitoring.dispatchDue, {});
+
+// Fails test runs that stopped reporting results, see execution.failStaleRun
+crons.interval("fail stale test runs", { minutes: 5 }, internal.execution.failStaleRuns, {});
+
+export default crons;
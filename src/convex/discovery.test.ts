@@ -0,0 +1,97 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { CrawlStats, ROLES } from "./schema";
+import { STALE_JOB_MS } from "./crawler";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Scheduled crawls stay queued: the clock is moved with setSystemTime, which fires no timers
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const NO_PROGRESS: CrawlStats = {
+  startTime: Date.now(),
+  nodesDiscovered: 0,
+  loopsDetected: 0,
+  maxDepthReached: 0,
+  errors: 0,
+  pruned: { maxDepth: 0, maxNodes: 0, maxCalls: 0, maxDuration: 0, maxOptionsPerMenu: 0, digitFilter: 0 },
+  navigation: { callsPlaced: 0, probeCalls: 0, redials: 0, backtracks: 0, airtimeSavedMs: 0 },
+};
+
+async function setup(status: string) {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    const jobId = await ctx.db.insert("discovery_jobs", {
+      projectId,
+      status,
+      entryPoint: "+15550100",
+      startTime: Date.now(),
+      resumeState: "{}",
+    });
+    return { userId, jobId };
+  });
+  return { t, ...ids, asAlice: t.withIdentity({ subject: `${ids.userId}|session` }) };
+}
+
+describe("resumeJob", () => {
+  test("continues a job waiting for input", async () => {
+    const { t, asAlice, jobId } = await setup("waiting_for_input");
+
+    await asAlice.mutation(api.discovery.resumeJob, { jobId, input: "1234" });
+    expect((await t.run((ctx) => ctx.db.get(jobId)))?.status).toBe("running");
+  });
+
+  test.each(["running", "paused", "completed", "cancelled"])("rejects a job that is %s", async (status) => {
+    const { t, asAlice, jobId } = await setup(status);
+
+    await expect(asAlice.mutation(api.discovery.resumeJob, { jobId, input: "1234" })).rejects.toThrow(
+      `Cannot resume a job that is ${status}`
+    );
+    expect((await t.run((ctx) => ctx.db.get(jobId)))?.status).toBe(status);
+  });
+});
+
+describe("retryJob", () => {
+  test("retries a running job only once it stops checkpointing", async () => {
+    const { t, asAlice, jobId } = await setup("running");
+    const start = Date.now();
+
+    vi.setSystemTime(start + STALE_JOB_MS - 1000);
+    await t.mutation(internal.discovery.checkpoint, { jobId, resumeState: "{}", crawlStats: NO_PROGRESS });
+    await expect(asAlice.mutation(api.discovery.retryJob, { jobId })).rejects.toThrow(
+      "Cannot retry a job that is running"
+    );
+
+    vi.setSystemTime(start + 2 * STALE_JOB_MS);
+    await asAlice.mutation(api.discovery.retryJob, { jobId });
+    const job = await t.run((ctx) => ctx.db.get(jobId));
+    expect(job).toMatchObject({ status: "running", lastProgressAt: start + 2 * STALE_JOB_MS });
+  });
+
+  test("rejects a job waiting for input", async () => {
+    const { asAlice, jobId } = await setup("waiting_for_input");
+
+    await expect(asAlice.mutation(api.discovery.retryJob, { jobId })).rejects.toThrow(
+      "Cannot retry a job that is waiting_for_input"
+    );
+  });
+});
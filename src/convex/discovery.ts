@@ -1,7 +1,13 @@
 import { v } from "convex/values";
-import { internalMutation, mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internalMutation, internalQuery, mutation, query, QueryCtx } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { getAccessibleDoc, getAccessibleProject, requireProject, requireProjectDoc } from "./access";
+import { isStaleJob, validateCrawlPolicy } from "./crawler";
+import { diffGraphs } from "./graph";
+import { maskCredentials } from "./inputVault";
+import { crawlPolicyValidator, crawlStatsValidator } from "./schema";
 
 // --- Internal Mutations --- //
 
@@ -10,24 +16,28 @@ export const createJob = mutation({
     projectId: v.id("projects"),
     entryPoint: v.string(),
     inputType: v.optional(v.string()), // "text" | "simulated" | undefined
+    policy: v.optional(crawlPolicyValidator),
   },
   handler: async (ctx, args) => {
-    // Clear existing nodes for a fresh discovery
-    const existingNodes = await ctx.db
-      .query("ivr_nodes")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
-    for (const node of existingNodes) {
-      await ctx.db.delete(node._id);
-    }
+    await requireProject(ctx, args.projectId);
+    if (args.policy) validateCrawlPolicy(args.policy);
 
-    return await ctx.db.insert("discovery_jobs", {
+    // Earlier jobs keep their nodes; each job crawls into its own graph snapshot
+    const jobId = await ctx.db.insert("discovery_jobs", {
       projectId: args.projectId,
       entryPoint: args.entryPoint,
       inputType: args.inputType,
+      policy: args.policy,
       status: "queued",
       startTime: Date.now(),
     });
+    await ctx.scheduler.runAfter(0, internal.discoveryActions.runDiscovery, {
+      jobId,
+      projectId: args.projectId,
+      entryPoint: args.entryPoint,
+      inputType: args.inputType,
+    });
+    return jobId;
   },
 });
 
@@ -38,9 +48,18 @@ export const writeLog = internalMutation({
     type: v.string(),
   },
   handler: async (ctx, args) => {
+    // Input vault values are replaced by their names before they are stored
+    const job = await ctx.db.get(args.jobId);
+    const credentials = job
+      ? await ctx.db
+          .query("test_credentials")
+          .withIndex("by_project", (q) => q.eq("projectId", job.projectId))
+          .collect()
+      : [];
+
     await ctx.db.insert("discovery_logs", {
       jobId: args.jobId,
-      message: args.message,
+      message: maskCredentials(args.message, credentials),
       type: args.type,
       timestamp: Date.now(),
     });
@@ -50,6 +69,7 @@ export const writeLog = internalMutation({
 export const insertNode = internalMutation({
   args: {
     projectId: v.id("projects"),
+    jobId: v.id("discovery_jobs"),
     parentId: v.optional(v.id("ivr_nodes")),
     type: v.string(),
     label: v.string(),
@@ -58,10 +78,13 @@ export const insertNode = internalMutation({
     fingerprint: v.optional(v.string()),
     isLoop: v.optional(v.boolean()),
     linkedNodeId: v.optional(v.id("ivr_nodes")),
+    matchScore: v.optional(v.number()),
+    matchThreshold: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("ivr_nodes", {
+    const node = {
       projectId: args.projectId,
+      jobId: args.jobId,
       parentId: args.parentId,
       type: args.type,
       label: args.label,
@@ -70,7 +93,21 @@ export const insertNode = internalMutation({
       fingerprint: args.fingerprint,
       isLoop: args.isLoop,
       linkedNodeId: args.linkedNodeId,
-    });
+      matchScore: args.matchScore,
+      matchThreshold: args.matchThreshold,
+    };
+
+    // A retry crawls the item that was in flight again: replace the node it already inserted
+    const siblings = await ctx.db
+      .query("ivr_nodes")
+      .withIndex("by_job_and_parent", (q) => q.eq("jobId", args.jobId).eq("parentId", args.parentId))
+      .collect();
+    const existing = siblings.find((s) => s.metadata?.path !== undefined && s.metadata.path === args.metadata?.path);
+    if (existing) {
+      await ctx.db.replace(existing._id, node);
+      return existing._id;
+    }
+    return await ctx.db.insert("ivr_nodes", node);
   },
 });
 
@@ -94,6 +131,7 @@ export const completeJob = internalMutation({
       endTime: Date.now(),
       platform: args.platform,
       artifacts: args.artifacts,
+      controlRequest: undefined,
     });
     await ctx.db.patch(args.projectId, {
       platform: args.platform,
@@ -106,25 +144,134 @@ export const setWaiting = internalMutation({
     jobId: v.id("discovery_jobs"),
     waitingFor: v.string(),
     resumeState: v.string(),
+    crawlStats: crawlStatsValidator,
   },
   handler: async (ctx, args) => {
     await ctx.db.patch(args.jobId, {
       status: "waiting_for_input",
       waitingFor: args.waitingFor,
       resumeState: args.resumeState,
+      crawlStats: args.crawlStats,
+    });
+  },
+});
+
+/**
+ * Saves the crawl frontier and counters before the next node and hands back any
+ * pending pause/cancel request. A queued job becomes running on its first checkpoint.
+ */
+export const checkpoint = internalMutation({
+  args: {
+    jobId: v.id("discovery_jobs"),
+    resumeState: v.string(),
+    crawlStats: crawlStatsValidator,
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) throw new Error("Job not found");
+
+    await ctx.db.patch(args.jobId, {
+      resumeState: args.resumeState,
+      crawlStats: args.crawlStats,
+      status: job.status === "queued" ? "running" : job.status,
+      lastProgressAt: Date.now(),
+    });
+    return job.controlRequest ?? null;
+  },
+});
+
+export const setPaused = internalMutation({
+  args: {
+    jobId: v.id("discovery_jobs"),
+    resumeState: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, {
+      status: "paused",
+      resumeState: args.resumeState,
+      controlRequest: undefined,
+    });
+  },
+});
+
+export const pauseJob = mutation({
+  args: { jobId: v.id("discovery_jobs") },
+  handler: async (ctx, args) => {
+    const job = await requireProjectDoc(ctx, args.jobId, "Job");
+    if (job.status !== "running" && job.status !== "queued") {
+      throw new Error(`Cannot pause a job that is ${job.status}`);
+    }
+    await ctx.db.patch(args.jobId, { controlRequest: "pause" });
+  },
+});
+
+export const cancelJob = mutation({
+  args: { jobId: v.id("discovery_jobs") },
+  handler: async (ctx, args) => {
+    const job = await requireProjectDoc(ctx, args.jobId, "Job");
+
+    if (job.status === "running" || job.status === "queued") {
+      // The crawl loop stops at its next checkpoint
+      await ctx.db.patch(args.jobId, { controlRequest: "cancel" });
+    } else if (job.status === "paused" || job.status === "waiting_for_input") {
+      await ctx.db.patch(args.jobId, {
+        status: "cancelled",
+        endTime: Date.now(),
+        waitingFor: undefined,
+        controlRequest: undefined,
+      });
+    } else {
+      throw new Error(`Cannot cancel a job that is ${job.status}`);
+    }
+  },
+});
+
+/**
+ * Marks a failed, paused or stalled job running again and resumes it from its
+ * checkpoint. A running job stalls when its crawl action dies without failing it.
+ */
+export const retryJob = mutation({
+  args: { jobId: v.id("discovery_jobs") },
+  handler: async (ctx, args) => {
+    const job = await requireProjectDoc(ctx, args.jobId, "Job");
+    if (job.status !== "failed" && job.status !== "paused" && !isStaleJob(job, Date.now())) {
+      throw new Error(`Cannot retry a job that is ${job.status}`);
+    }
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      endTime: undefined,
+      controlRequest: undefined,
+      lastProgressAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.discoveryActions.continueDiscovery, {
+      jobId: args.jobId,
+      projectId: job.projectId,
     });
   },
 });
 
+/** Continues a job waiting for input with the value it asked for. */
 export const resumeJob = mutation({
   args: {
     jobId: v.id("discovery_jobs"),
     input: v.string(),
   },
   handler: async (ctx, args) => {
+    const job = await requireProjectDoc(ctx, args.jobId, "Job");
+    if (job.status !== "waiting_for_input") {
+      throw new Error(`Cannot resume a job that is ${job.status}`);
+    }
+    if (!job.resumeState) throw new Error("Cannot resume job: No state found");
+
     await ctx.db.patch(args.jobId, {
       status: "running",
       waitingFor: undefined,
+      lastProgressAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.discoveryActions.continueDiscovery, {
+      jobId: args.jobId,
+      projectId: job.projectId,
+      input: args.input,
     });
   },
 });
@@ -133,7 +280,9 @@ export const resumeJob = mutation({
 
 export const getConfigStatus = query({
   args: {},
-  handler: async () => {
+  handler: async (ctx) => {
+    if ((await getAuthUserId(ctx)) === null) return null;
+
     const url = process.env.TELEPHONY_BACKEND_URL;
     const isInvalid = url && (url.includes("convex.site") || url.includes("vly.site"));
     return {
@@ -147,13 +296,28 @@ export const getConfigStatus = query({
 export const getJob = query({
   args: { jobId: v.id("discovery_jobs") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.jobId);
+    return await getAccessibleDoc(ctx, args.jobId);
+  },
+});
+
+export const getLatestJob = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return null;
+
+    return await ctx.db
+      .query("discovery_jobs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .first();
   },
 });
 
 export const getLogs = query({
   args: { jobId: v.id("discovery_jobs") },
   handler: async (ctx, args) => {
+    if (!(await getAccessibleDoc(ctx, args.jobId))) return [];
+
     return await ctx.db
       .query("discovery_logs")
       .withIndex("by_job", (q) => q.eq("jobId", args.jobId))
@@ -162,12 +326,110 @@ export const getLogs = query({
   },
 });
 
+/**
+ * Use this function internally to load a graph snapshot: the nodes of `jobId`,
+ * or of the project's latest completed job when omitted. Projects crawled
+ * before snapshots existed fall back to their unversioned nodes.
+ */
+export const getSnapshotNodes = async (
+  ctx: QueryCtx,
+  projectId: Id<"projects">,
+  jobId?: Id<"discovery_jobs">
+) => {
+  if (!jobId) {
+    const latest = await ctx.db
+      .query("discovery_jobs")
+      .withIndex("by_project", (q) => q.eq("projectId", projectId))
+      .order("desc")
+      .filter((q) => q.eq(q.field("status"), "completed"))
+      .first();
+    if (!latest) {
+      const nodes = await ctx.db
+        .query("ivr_nodes")
+        .withIndex("by_project", (q) => q.eq("projectId", projectId))
+        .collect();
+      return nodes.filter((node) => node.jobId === undefined);
+    }
+    jobId = latest._id;
+  }
+
+  return await ctx.db
+    .query("ivr_nodes")
+    .withIndex("by_job", (q) => q.eq("jobId", jobId))
+    .collect();
+};
+
 export const getNodes = query({
+  args: {
+    projectId: v.id("projects"),
+    jobId: v.optional(v.id("discovery_jobs")),
+  },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    return await getSnapshotNodes(ctx, args.projectId, args.jobId);
+  },
+});
+
+export const listJobs = query({
   args: { projectId: v.id("projects") },
   handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
     return await ctx.db
-      .query("ivr_nodes")
+      .query("discovery_jobs")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
       .collect();
   },
-});
\ No newline at end of file
+});
+
+/** Added, removed, changed and moved prompts between two jobs' graph snapshots. */
+export const diffJobs = query({
+  args: {
+    baseJobId: v.id("discovery_jobs"),
+    targetJobId: v.id("discovery_jobs"),
+  },
+  handler: async (ctx, args) => {
+    const base = await getAccessibleDoc(ctx, args.baseJobId);
+    const target = await getAccessibleDoc(ctx, args.targetJobId);
+    if (!base || !target) throw new Error("Job not found");
+    if (base.projectId !== target.projectId) {
+      throw new Error("Cannot diff jobs from different projects");
+    }
+
+    const before = await getSnapshotNodes(ctx, base.projectId, base._id);
+    const after = await getSnapshotNodes(ctx, target.projectId, target._id);
+    return diffGraphs(before, after);
+  },
+});
+
+// --- Used by discoveryActions.ts and executionActions.ts --- //
+
+export const getJobInternal = internalQuery({
+  args: { jobId: v.id("discovery_jobs") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.jobId);
+  },
+});
+
+export const getLatestJobInternal = internalQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("discovery_jobs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .first();
+  },
+});
+
+export const getNodesInternal = internalQuery({
+  args: {
+    projectId: v.id("projects"),
+    jobId: v.optional(v.id("discovery_jobs")),
+  },
+  handler: async (ctx, args) => {
+    return await getSnapshotNodes(ctx, args.projectId, args.jobId);
+  },
+});
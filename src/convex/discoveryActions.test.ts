@@ -0,0 +1,125 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { internal } from "./_generated/api";
+import { fingerprintPrompt } from "./prompts";
+import schema from "./schema";
+import { CrawlPolicy, ROLES } from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Each branch answers "(Simulated) You selected <label>. Press 9 for the main menu."
+const TRANSCRIPT = "Press 1 for billing. Press 2 for sales. Press 3 for support. Press 9 for the main menu.";
+
+/** A queued job for a pasted transcript, crawled with the text simulator. */
+async function setup(entryPoint: string, policy: CrawlPolicy = {}) {
+  const t = convexTest(schema, modules);
+  const { projectId, jobId } = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    const jobId = await ctx.db.insert("discovery_jobs", {
+      projectId,
+      status: "queued",
+      entryPoint,
+      inputType: "text",
+      policy,
+      startTime: Date.now(),
+    });
+    return { projectId, jobId };
+  });
+  return { t, projectId, jobId };
+}
+
+async function crawl(entryPoint = TRANSCRIPT, policy: CrawlPolicy = {}) {
+  const { t, projectId, jobId } = await setup(entryPoint, policy);
+  await t.action(internal.discoveryActions.runDiscovery, { jobId, projectId, entryPoint, inputType: "text" });
+  const nodes = await t.run((ctx) => ctx.db.query("ivr_nodes").collect());
+  const job = await t.run((ctx) => ctx.db.get(jobId));
+  const report = job?.artifacts && JSON.parse(job.artifacts.report);
+  return { t, jobId, nodes, report };
+}
+
+describe("runDiscovery", () => {
+  test("keeps sibling prompts that differ by one word apart", async () => {
+    const { nodes } = await crawl();
+
+    const branches = nodes.filter((n) => n.type === "prompt");
+    expect(branches.map((n) => [n.label, n.isLoop])).toEqual([
+      ["Option 1", false],
+      ["Option 2", false],
+      ["Option 3", false],
+    ]);
+  });
+
+  test("probes a menu after its branches, on the same call", async () => {
+    const { nodes, report } = await crawl();
+
+    expect(nodes.map((n) => n.label)).toEqual([
+      "Main Menu",
+      "Option 1",
+      "Option 2",
+      "Option 3",
+      "No input (8s)",
+      "Option 8",
+      "Option 8",
+      "Option 8",
+    ]);
+    expect(report.metrics).toMatchObject({ callsPlaced: 1, probeCalls: 0, redials: 0 });
+  });
+
+  test("does not spend the call budget on probes", async () => {
+    // Without a main menu key every branch and probe needs its own call
+    const { nodes, report } = await crawl("Press 1 for billing. Press 2 for sales.", { maxCalls: 2 });
+
+    expect(nodes.filter((n) => n.type === "prompt")).toHaveLength(2);
+    expect(nodes.filter((n) => n.type === "error")).toHaveLength(4);
+    expect(report.metrics).toMatchObject({ callsPlaced: 4, probeCalls: 2 });
+    expect(report.policy.pruned.maxCalls).toBe(0);
+  });
+
+  test("keeps counting across a wait for input", async () => {
+    const { t, jobId, report: paused } = await crawl("Please enter your PIN.");
+    expect(paused).toBeUndefined();
+    const { projectId, crawlStats } = (await t.run((ctx) => ctx.db.get(jobId)))!;
+    expect(crawlStats).toMatchObject({ nodesDiscovered: 1, navigation: { callsPlaced: 1 } });
+
+    await t.action(internal.discoveryActions.continueDiscovery, { jobId, projectId, input: "1234" });
+    const job = await t.run((ctx) => ctx.db.get(jobId));
+    expect(job?.status).toBe("completed");
+    expect(JSON.parse(job!.artifacts!.report).metrics).toMatchObject({
+      startTime: crawlStats!.startTime,
+      nodesDiscovered: 2,
+      callsPlaced: 2,
+    });
+  });
+
+  test("retrying a node that was inserted before the crawl died updates it", async () => {
+    const { t, projectId, jobId } = await setup(TRANSCRIPT);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("ivr_nodes", {
+        projectId,
+        jobId,
+        type: "menu",
+        label: "Main Menu",
+        content: TRANSCRIPT,
+        metadata: { path: "" },
+        fingerprint: fingerprintPrompt(TRANSCRIPT),
+        isLoop: false,
+      });
+      await ctx.db.patch(jobId, { status: "failed", resumeState: JSON.stringify([{ path: [], depth: 0 }]) });
+    });
+
+    await t.action(internal.discoveryActions.continueDiscovery, { jobId, projectId });
+    const nodes = await t.run((ctx) => ctx.db.query("ivr_nodes").collect());
+    expect(nodes.filter((n) => n.label === "Main Menu")).toMatchObject([{ isLoop: false }]);
+    expect(nodes.filter((n) => n.type === "prompt")).toHaveLength(3);
+  });
+});
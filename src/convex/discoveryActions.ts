@@ -1,357 +1,70 @@
 "use node";
 
 import { v } from "convex/values";
-import { action } from "./_generated/server";
-import { api, internal } from "./_generated/api";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
-
-// --- Types & Interfaces --- //
-
-type FlowNode = {
-  label: string;
-  type: "menu" | "prompt" | "input";
-  content: string;
-  metadata?: Record<string, unknown>;
-  children?: FlowNode[];
-};
-
-type CuratedIVR = {
-  id: string;
-  entryPoints: string[];
-  platform: string;
-  industry: string;
-  welcome: string;
-  branches: FlowNode[];
-};
-
-type AudioProcessingResult = {
-  transcript: string;
-  confidence: number;
-  audioUrl: string;
-  durationMs: number;
-  detectedDtmf?: string;
-};
-
-// --- Helper Functions --- //
-
-function normalizeEntryPoint(value: string): string {
-  let normalized = value.trim().toLowerCase();
-  normalized = normalized.replace(/[^0-9+a-z:]/g, "");
-  return normalized;
-}
-
-function parseTranscriptFlow(text: string): CuratedIVR {
-  const branches: FlowNode[] = [];
-  const pressMatches = text.matchAll(/Press (\d) for ([^.,;]+)/gi);
-  for (const match of pressMatches) {
-    branches.push({
-      label: match[2].trim(),
-      type: "prompt",
-      content: `(Simulated) You selected ${match[2].trim()}.`,
-      metadata: { dtmf: match[1], confidence: 1.0 },
-    });
-  }
-  return {
-    id: "transcript_flow",
-    entryPoints: [],
-    platform: "Text Transcript",
-    industry: "Unknown",
-    welcome: text,
-    branches,
-  };
-}
-
-// --- Strict Matching & Fingerprinting --- //
-
-function normalizeText(text: string): string {
-  return text.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
-}
-
-function fingerprintPrompt(text: string): string {
-  let hash = 0;
-  const normalized = normalizeText(text);
-  if (normalized.length === 0) return "empty";
-  for (let i = 0; i < normalized.length; i++) {
-    const char = normalized.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return `v1:${Math.abs(hash).toString(16)}`;
-}
-
-function extractMenuOptions(text: string): { dtmf: string; label: string }[] {
-  const options: { dtmf: string; label: string }[] = [];
-
-  // Try to catch common IVR phrases:
-  // - "Press 1 for Billing"
-  // - "For Billing, press 1"
-  // - "To check your balance, press 1"
-  // - "Press or say 1 for Billing"
-  const patterns = [
-    /Press\s+(\d)\s+(?:for|to)\s+([^.,;]+)/gi,
-    /For\s+([^.,;]+?),?\s+press\s+(\d)/gi,
-    /To\s+([^.,;]+?),?\s+press\s+(\d)/gi,
-    /Press\s+or\s+say\s+(\d)\s+for\s+([^.,;]+)/gi,
-  ];
-
-  for (const pattern of patterns) {
-    const matches = text.matchAll(pattern);
-    for (const match of matches) {
-      const g1 = match[1];
-      const g2 = match[2];
-      if (/\d/.test(g1)) {
-        options.push({ dtmf: g1, label: g2.trim() });
-      } else {
-        options.push({ dtmf: g2, label: g1.trim() });
-      }
-    }
-  }
-
-  return options;
-}
-
-// --- Telephony Abstraction (Interface + Factory + Implementations) --- //
-
-interface TelephonySession {
-  dial(): Promise<AudioProcessingResult>;
-  sendDtmf(digit: string): Promise<AudioProcessingResult>;
-  hangup(): Promise<void>;
-}
-
-/**
- * Real telephony session: talks to a separate backend that:
- *  - places the call
- *  - listens to prompts
- *  - runs ASR
- *  - returns AudioProcessingResult JSON
- */
-class RealTelephonySession implements TelephonySession {
-  private callId: string | null = null;
-  private endpoint: string;
-  private backendUrl: string;
-
-  constructor(endpoint: string, backendUrl: string) {
-    this.endpoint = endpoint;
-    this.backendUrl = backendUrl;
-  }
-
-  async dial(): Promise<AudioProcessingResult> {
-    try {
-      const res = await fetch(`${this.backendUrl}/dial`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ endpoint: this.endpoint }),
-      });
-
-      if (!res.ok) {
-        if (res.status === 404) {
-          throw new Error(
-            `Telephony backend returned 404 (Not Found). You might be pointing TELEPHONY_BACKEND_URL to the frontend instead of the backend server, or the /dial endpoint is missing. Check TELEPHONY_SETUP.md.`
-          );
-        }
-        throw new Error(`Dial failed with status ${res.status}`);
-      }
-
-      const data = await res.json();
-      this.callId = data.callId;
-
-      return {
-        transcript: data.transcript ?? "",
-        confidence: data.confidence ?? 0,
-        audioUrl: data.audioUrl ?? "",
-        durationMs: data.durationMs ?? 0,
-        detectedDtmf: data.detectedDtmf,
-      };
-    } catch (err: any) {
-      throw new Error(`RealTelephonySession.dial error: ${err.message}`);
-    }
-  }
-
-  async sendDtmf(digit: string): Promise<AudioProcessingResult> {
-    if (!this.callId) {
-      throw new Error("Call not connected");
-    }
-
-    try {
-      const res = await fetch(`${this.backendUrl}/send-dtmf`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ callId: this.callId, digit }),
-      });
-
-      if (!res.ok) {
-        throw new Error(`sendDtmf failed with status ${res.status}`);
-      }
-
-      const data = await res.json();
-
-      return {
-        transcript: data.transcript ?? "",
-        confidence: data.confidence ?? 0,
-        audioUrl: data.audioUrl ?? "",
-        durationMs: data.durationMs ?? 0,
-        detectedDtmf: data.detectedDtmf,
-      };
-    } catch (err: any) {
-      throw new Error(`RealTelephonySession.sendDtmf error: ${err.message}`);
-    }
-  }
-
-  async hangup(): Promise<void> {
-    if (!this.callId) return;
-
-    try {
-      await fetch(`${this.backendUrl}/hangup`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ callId: this.callId }),
-      });
-    } catch (err: any) {
-      console.error(`RealTelephonySession.hangup error: ${err.message}`);
-    } finally {
-      this.callId = null;
-    }
-  }
-}
-
-/**
- * Simple simulator used ONLY when:
- *  - inputType === "text" (user pasted transcript)
- *  - inputType === "simulated" (explicit dev mode)
- */
-class SimulatedTelephonySession implements TelephonySession {
-  private flow: CuratedIVR;
-  private currentNode: FlowNode | null = null;
-  private isConnected = false;
-
-  constructor(entryPoint: string, inputType?: string) {
-    if (inputType === "text") {
-      this.flow = parseTranscriptFlow(entryPoint);
-    } else {
-      // minimal generic wrapper for simulated mode
-      this.flow = {
-        id: "simulated_text",
-        entryPoints: [entryPoint],
-        platform: "Simulated",
-        industry: "Unknown",
-        welcome: entryPoint,
-        branches: [],
-      };
-    }
-  }
-
-  async dial(): Promise<AudioProcessingResult> {
-    this.isConnected = true;
-    return this.processAudio(this.flow.welcome);
-  }
-
-  async sendDtmf(digit: string): Promise<AudioProcessingResult> {
-    if (!this.isConnected) throw new Error("Call not connected");
-
-    let children = this.currentNode ? this.currentNode.children : this.flow.branches;
-
-    if (!children || children.length === 0) {
-      return this.processAudio("Invalid option.");
-    }
-
-    const match = children.find((c) => c.metadata?.dtmf === digit);
-    if (match) {
-      this.currentNode = match;
-      return this.processAudio(match.content);
-    }
-
-    return this.processAudio("Invalid selection. Please try again.");
-  }
-
-  async hangup() {
-    this.isConnected = false;
-    this.currentNode = null;
-  }
-
-  private processAudio(text: string): AudioProcessingResult {
-    const confidence = 0.9;
-    const duration = text.length * 50;
-
-    return {
-      transcript: text,
-      confidence,
-      audioUrl: `https://example.com/simulated/${Math.random()
-        .toString(36)
-        .substring(7)}.mp3`,
-      durationMs: duration,
-    };
-  }
-}
-
-/**
- * Factory: choose which TelephonySession to use based on entryPoint + inputType.
- *
- *  - inputType === "text"       → transcript-based simulation
- *  - inputType === "simulated"  → simulated dev mode
- *  - phone number or sip: URI   → real telephony (ALWAYS)
- */
-function createTelephonySession(
-  entryPoint: string,
-  inputType: string | undefined,
-  backendUrl?: string
-): TelephonySession {
-  if (inputType === "text" || inputType === "simulated") {
-    return new SimulatedTelephonySession(entryPoint, inputType);
-  }
-
-  const ep = normalizeEntryPoint(entryPoint);
-  const looksLikePhone = /^(\+?\d{6,})$/.test(ep) || ep.startsWith("tel");
-  const looksLikeSip = ep.startsWith("sip");
-
-  if (looksLikePhone || looksLikeSip) {
-    if (!backendUrl) {
-      throw new Error("TELEPHONY_BACKEND_URL is not configured for RealTelephonySession");
-    }
-    return new RealTelephonySession(entryPoint, backendUrl);
-  }
-
-  // Default: treat unknown formats as real to avoid silently simulating
-  if (!backendUrl) {
-    throw new Error("TELEPHONY_BACKEND_URL is not configured for RealTelephonySession");
-  }
-  return new RealTelephonySession(entryPoint, backendUrl);
-}
-
-// --- Action: The "Crawl Engine" (DFS Graph Traversal) --- //
-
-export const continueDiscovery = action({
+import { buildGraph } from "./graph";
+import {
+  applyOptionPolicy,
+  CrawlFrontier,
+  CrawlNavigator,
+  credentialStep,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_MAX_PROBED_MENUS,
+  DEFAULT_NO_INPUT_SECONDS,
+  describeStep,
+  findLoop,
+  FrontierItem,
+  MAX_RETRY_ATTEMPTS,
+  pickUnadvertisedKey,
+  PruneReason,
+  speechStep,
+  stepCredential,
+  stepUtterance,
+  stepWait,
+  VisitedNode,
+  waitStep,
+} from "./crawler";
+import { selectCredential } from "./inputVault";
+import { extractMenuOptions, isOpenEndedPrompt, splitNavigationOptions } from "./menuOptions";
+import {
+  classifyPromptOutcome,
+  DEFAULT_MIN_FUZZY_TOKENS,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  fingerprintPrompt,
+} from "./prompts";
+import { createTelephonySession, RealTelephonySession } from "./telephony";
+
+// --- Action: The "Crawl Engine" (DFS / BFS / Priority Graph Traversal) --- //
+
+export const continueDiscovery = internalAction({
   args: {
     jobId: v.id("discovery_jobs"),
     projectId: v.id("projects"),
-    input: v.string(),
+    input: v.optional(v.string()), // Omitted when retrying or unpausing from the last checkpoint
   },
   handler: async (ctx, args) => {
-    const job = await ctx.runQuery(api.discovery.getJob, { jobId: args.jobId });
-    if (!job || !job.resumeState) {
+    const job = await ctx.runQuery(internal.discovery.getJobInternal, { jobId: args.jobId });
+    if (!job) throw new Error("Cannot resume job: Job not found");
+    if (args.input !== undefined && !job.resumeState) {
       throw new Error("Cannot resume job: No state found");
     }
 
-    const stack = JSON.parse(job.resumeState);
-    if (stack.length > 0) {
-      const lastState = stack[stack.length - 1];
-      stack[stack.length - 1] = {
-        ...lastState,
-        path: [...lastState.path, args.input],
-      };
-    }
-
-    await ctx.runAction(api.discoveryActions.runDiscovery, {
+    // runDiscovery applies the input to the next frontier item. A job that
+    // failed before its first checkpoint has no state and simply starts over.
+    await ctx.runAction(internal.discoveryActions.runDiscovery, {
       jobId: args.jobId,
       projectId: args.projectId,
       entryPoint: job.entryPoint,
       inputType: job.inputType,
       resumeInput: args.input,
-      resumeStack: JSON.stringify(stack),
+      resumeStack: job.resumeState,
     });
   },
 });
 
-export const runDiscovery = action({
+export const runDiscovery = internalAction({
   args: {
     jobId: v.id("discovery_jobs"),
     projectId: v.id("projects"),
@@ -372,9 +85,42 @@ export const runDiscovery = action({
       });
     };
 
-    try {
-      const backendUrl = process.env.TELEPHONY_BACKEND_URL;
+    const backendUrl = process.env.TELEPHONY_BACKEND_URL;
+    const job = await ctx.runQuery(internal.discovery.getJobInternal, { jobId });
+    const policy = job?.policy ?? {};
+    const maxDepth = policy.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const similarityThreshold = policy.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const minFuzzyTokens = policy.minFuzzyTokens ?? DEFAULT_MIN_FUZZY_TOKENS;
+    const maxProbedMenus = policy.probeErrors === false ? 0 : policy.maxProbedMenus ?? DEFAULT_MAX_PROBED_MENUS;
+    const project = await ctx.runQuery(internal.projects.getInternal, { id: projectId });
+    const utterances = project?.utterances ?? [];
+    const vault = await ctx.runQuery(internal.credentials.listForProject, { projectId });
+    // Budgets and the report cover the whole crawl, not just this segment
+    const saved = resumeStack ? job?.crawlStats : undefined;
+
+    // One live call is reused across nodes; it only redials when it cannot backtrack.
+    const navigator = new CrawlNavigator(
+      () => {
+        const session = createTelephonySession(entryPoint, inputType, backendUrl);
+        void log(
+          `Created session: ${
+            session instanceof RealTelephonySession ? "RealTelephonySession" : "SimulatedTelephonySession"
+          }`,
+          "debug"
+        );
+        return session;
+      },
+      (msg) => log(msg, "debug"),
+      {
+        maxCalls: policy.maxCalls,
+        similarityThreshold,
+        minFuzzyTokens,
+        credentials: Object.fromEntries(vault.map((c) => [c.name, c.value])),
+        metrics: saved?.navigation,
+      }
+    );
 
+    try {
       await log(
         `Starting Graph-Based Discovery for ${entryPoint} (inputType=${inputType ?? "none"})...`
       );
@@ -402,60 +148,195 @@ export const runDiscovery = action({
         }
       }
 
-      const visitedFingerprints = new Map<string, Id<"ivr_nodes">>();
-      const maxDepth = 5;
-
-      let stack: { path: string[]; parentId?: Id<"ivr_nodes">; depth: number }[] =
-        [];
+      const mode = policy.mode ?? "dfs";
+      const keywords = policy.priorityKeywords ?? [];
+      let frontier: CrawlFrontier;
 
       if (resumeStack) {
-        stack = JSON.parse(resumeStack);
-        await log("Resuming from saved state...", "info");
-        if (resumeInput && stack.length > 0) {
-          const current = stack.pop()!;
-          stack.push({ ...current, path: [...current.path, resumeInput] });
+        frontier = CrawlFrontier.restore(mode, keywords, resumeStack);
+        await log(`Resuming from saved state (${mode.toUpperCase()})...`, "info");
+        const current = resumeInput ? frontier.next() : undefined;
+        if (current) {
+          frontier.requeue({ ...current, path: [...current.path, resumeInput!] });
           await log(`Applied manual input: ${resumeInput}`);
         }
       } else {
-        stack.push({ path: [], parentId: undefined, depth: 0 });
+        frontier = new CrawlFrontier(mode, keywords, [{ path: [], parentId: undefined, depth: 0 }]);
+        await log(`Crawl mode: ${mode.toUpperCase()}`);
+      }
+
+      const visited = new Map<Id<"ivr_nodes">, VisitedNode>();
+      const probedMenus = new Set<Id<"ivr_nodes">>();
+      if (resumeStack) {
+        // Nodes crawled before the checkpoint still count for loop detection and the probe budget.
+        // A node whose item is still pending was inserted by a crawl that died before checkpointing
+        // it; crawling the item again updates that node instead of matching it as a loop.
+        const crawled = await ctx.runQuery(internal.discovery.getNodesInternal, { projectId, jobId });
+        for (const node of crawled) {
+          if (node.metadata?.probe && node.metadata.attempt === 1 && node.parentId) probedMenus.add(node.parentId);
+          if (frontier.isPending(String(node.metadata?.path ?? ""), node.parentId)) continue;
+          if (!node.isLoop && !node.metadata?.probe && node.fingerprint) {
+            visited.set(node._id, {
+              nodeId: node._id,
+              parentId: node.parentId,
+              fingerprint: node.fingerprint,
+              content: node.content,
+            });
+          }
+        }
       }
 
       const metrics = {
-        startTime: Date.now(),
-        nodesDiscovered: 0,
-        loopsDetected: 0,
-        maxDepthReached: 0,
-        errors: 0,
+        startTime: saved?.startTime ?? Date.now(),
+        nodesDiscovered: saved?.nodesDiscovered ?? 0,
+        loopsDetected: saved?.loopsDetected ?? 0,
+        maxDepthReached: saved?.maxDepthReached ?? 0,
+        errors: saved?.errors ?? 0,
       };
 
-      // --- DFS Loop --- //
-      while (stack.length > 0) {
-        const { path, parentId, depth } = stack.pop()!;
+      // Branches dropped by the crawl policy, per reason
+      const pruned: Record<PruneReason, number> = saved
+        ? { ...saved.pruned }
+        : {
+            maxDepth: 0,
+            maxNodes: 0,
+            maxCalls: 0,
+            maxDuration: 0,
+            maxOptionsPerMenu: 0,
+            digitFilter: 0,
+          };
+      let budgetExhausted: PruneReason | null = null;
+      const crawlStats = () => ({ ...metrics, pruned, navigation: navigator.metrics });
+
+      // --- Crawl Loop --- //
+      while (frontier.size > 0) {
+        const control = await ctx.runMutation(internal.discovery.checkpoint, {
+          jobId,
+          resumeState: frontier.serialize(),
+          crawlStats: crawlStats(),
+        });
+        if (control === "cancel") {
+          await navigator.release();
+          await log("Discovery cancelled by user.", "warning");
+          await ctx.runMutation(internal.discovery.completeJob, {
+            jobId,
+            projectId,
+            platform: backendUrl ? "Live/Discovered" : "Simulated",
+            status: "cancelled",
+          });
+          return;
+        }
+        if (control === "pause") {
+          await navigator.release();
+          await log(`Discovery paused with ${frontier.size} branch(es) pending.`, "warning");
+          await ctx.runMutation(internal.discovery.setPaused, {
+            jobId,
+            resumeState: frontier.serialize(),
+          });
+          return;
+        }
+
+        if (policy.maxNodes !== undefined && metrics.nodesDiscovered >= policy.maxNodes) {
+          budgetExhausted = "maxNodes";
+        } else if (
+          policy.maxDurationSeconds !== undefined &&
+          Date.now() - metrics.startTime >= policy.maxDurationSeconds * 1000
+        ) {
+          budgetExhausted = "maxDuration";
+        }
+        if (budgetExhausted) {
+          pruned[budgetExhausted] += frontier.size;
+          await log(
+            `Crawl budget ${budgetExhausted} exhausted. Pruning ${frontier.size} remaining branch(es).`,
+            "warning"
+          );
+          break;
+        }
+
+        const item = frontier.next()!;
+        const { path, parentId, depth } = item;
 
-        if (depth > maxDepth) {
+        // Probes are never expanded, so they may go one level below the deepest menu
+        if (depth > maxDepth && !item.probe) {
+          pruned.maxDepth++;
           await log(`Max depth (${maxDepth}) reached. Pruning branch.`, "debug");
           continue;
         }
 
-        metrics.maxDepthReached = Math.max(metrics.maxDepthReached, depth);
-
-        await log(`DEBUG: TELEPHONY_BACKEND_URL='${String(backendUrl)}'`, "debug");
-        const session = createTelephonySession(entryPoint, inputType, backendUrl);
-        await log(
-          `Created session: ${
-            session instanceof RealTelephonySession ? "RealTelephonySession" : "SimulatedTelephonySession"
-          } for path [${path.join(",")}]`,
-          "debug"
-        );
+        // Error probes are recorded as heard: they replay menus by design, so
+        // they skip loop detection and are never expanded
+        if (item.probe) {
+          const step = path[path.length - 1];
+          const menu = path.slice(0, path.length - item.probe.attempt);
+          const result = await navigator.probe(menu, step, item.probe.attempt > 1);
+          if (!result) {
+            await log(`Call ended before probe [${path.join(",")}]. Skipping it.`, "debug");
+            continue;
+          }
+          metrics.maxDepthReached = Math.max(metrics.maxDepthReached, depth);
+
+          const nodeId = await ctx.runMutation(internal.discovery.insertNode, {
+            projectId,
+            jobId,
+            parentId,
+            type: "error",
+            label: describeStep(step),
+            content: result.transcript,
+            metadata: {
+              path: path.join(">"),
+              confidence: result.confidence,
+              audioUrl: result.audioUrl,
+              durationMs: result.durationMs,
+              dtmf: stepWait(step) === undefined ? step : undefined,
+              wait: stepWait(step),
+              probe: item.probe.outcome,
+              attempt: item.probe.attempt,
+            },
+            fingerprint: fingerprintPrompt(result.transcript),
+            isLoop: false,
+            matchThreshold: similarityThreshold,
+          });
+          metrics.nodesDiscovered++;
+          await log(
+            `Probed ${item.probe.outcome === "timeout" ? "no input" : `invalid key ${step} (attempt ${item.probe.attempt})`}: "${result.transcript}"`
+          );
 
-        let result = await session.dial();
+          if (item.probe.outcome === "invalid_input") {
+            // Keep pressing until the IVR stops asking to try again
+            if (
+              item.probe.attempt < MAX_RETRY_ATTEMPTS &&
+              classifyPromptOutcome(result.transcript) === "invalid_input"
+            ) {
+              frontier.requeue({
+                path: [...path, step],
+                parentId: nodeId,
+                depth: depth + 1,
+                probe: { outcome: "invalid_input", attempt: item.probe.attempt + 1 },
+              });
+            } else {
+              // The IVR has disconnected or transferred by now: the next branch starts a fresh call
+              await navigator.release();
+            }
+          }
+          continue;
+        }
 
-        for (const digit of path) {
-          result = await session.sendDtmf(digit);
+        const result = await navigator.goto(path);
+        if (!result) {
+          pruned.maxCalls++;
+          await log(
+            `Call budget (${policy.maxCalls}) exhausted. Pruning branch [${path.join(",")}].`,
+            "debug"
+          );
+          continue;
         }
 
+        metrics.maxDepthReached = Math.max(metrics.maxDepthReached, depth);
+
         const fingerprint = fingerprintPrompt(result.transcript);
-        const isLoop = visitedFingerprints.has(fingerprint);
+
+        const match = findLoop(result.transcript, visited, parentId, similarityThreshold, minFuzzyTokens);
+        const isLoop = match !== null;
 
         await log(
           `[Depth ${depth}] Reached node. Fingerprint=${fingerprint}, Confidence=${(
@@ -463,85 +344,199 @@ export const runDiscovery = action({
           ).toFixed(1)}%`
         );
 
+        const extracted = extractMenuOptions(result.transcript);
+        const { navigation, options: advertised } = splitNavigationOptions(extracted);
+        const entry = extracted.find((o) => o.kind === "entry");
+        navigator.remember(path, result, navigation);
+
+        const lastStep = path.length > 0 ? path[path.length - 1] : undefined;
+        const utterance = lastStep !== undefined ? stepUtterance(lastStep) : undefined;
+        const credential = lastStep !== undefined ? stepCredential(lastStep) : undefined;
+
         const nodeId = await ctx.runMutation(internal.discovery.insertNode, {
           projectId,
+          jobId,
           parentId,
-          type: depth === 0 ? "menu" : "prompt",
-          label: depth === 0 ? "Main Menu" : `Option ${path[path.length - 1]}`,
+          type: depth === 0 ? "menu" : entry ? "input" : "prompt",
+          label: lastStep === undefined ? "Main Menu" : describeStep(lastStep),
           content: result.transcript,
           metadata: {
             path: path.join(">"),
             confidence: result.confidence,
             audioUrl: result.audioUrl,
             durationMs: result.durationMs,
-            dtmf: path.length > 0 ? path[path.length - 1] : undefined,
+            dtmf: utterance === undefined && !credential ? lastStep : undefined,
+            utterance,
+            credential: credential?.name,
+            terminator: credential?.terminator || undefined,
+            navigation:
+              navigation.mainMenu || navigation.previousMenu ? navigation : undefined,
+            options: extracted.length > 0 ? extracted : undefined,
           },
           fingerprint,
           isLoop,
-          linkedNodeId: isLoop ? visitedFingerprints.get(fingerprint) : undefined,
+          linkedNodeId: match?.candidate.nodeId,
+          matchScore: match ? Math.round(match.score * 1000) / 1000 : undefined,
+          matchThreshold: similarityThreshold,
         });
 
         metrics.nodesDiscovered++;
 
         if (isLoop) {
           metrics.loopsDetected++;
-          await log(`Loop detected. Stopping branch at fingerprint=${fingerprint}.`);
-          await session.hangup();
+          await log(
+            `Loop detected (similarity ${match.score.toFixed(2)} >= ${similarityThreshold}). Stopping branch at fingerprint=${fingerprint}.`
+          );
           continue;
         }
 
-        visitedFingerprints.set(fingerprint, nodeId);
+        visited.set(nodeId, { nodeId, parentId, fingerprint, content: result.transcript });
 
-        const options = extractMenuOptions(result.transcript);
+        const { options, filtered, overLimit } = applyOptionPolicy(advertised, policy);
+        pruned.digitFilter += filtered;
+        pruned.maxOptionsPerMenu += overLimit;
+        if (filtered + overLimit > 0) {
+          await log(
+            `Crawl policy skipped ${filtered + overLimit} of ${advertised.length} options at this menu.`,
+            "debug"
+          );
+        }
 
-        if (options.length > 0) {
+        if (advertised.length > 0) {
           await log(
             `Found ${options.length} options: ${options
               .map((o) => `${o.dtmf}:${o.label}`)
               .join(" | ")}`
           );
 
-          for (let i = options.length - 1; i >= 0; i--) {
-            stack.push({
-              path: [...path, options[i].dtmf],
-              parentId: nodeId,
-              depth: depth + 1,
-            });
+          const children: FrontierItem[] = options.map((o) => ({
+            path: [...path, o.dtmf],
+            parentId: nodeId,
+            depth: depth + 1,
+            label: o.label,
+            priority: item.priority,
+          }));
+
+          // Probed after the menu's branches, which a retry limit hang-up would otherwise cut short
+          if (probedMenus.size < maxProbedMenus) {
+            probedMenus.add(nodeId);
+            const invalidKey = pickUnadvertisedKey(extracted.map((o) => o.dtmf), navigation);
+            const probes: FrontierItem[] = [
+              {
+                path: [...path, waitStep(DEFAULT_NO_INPUT_SECONDS)],
+                parentId: nodeId,
+                depth: depth + 1,
+                probe: { outcome: "timeout", attempt: 1 },
+                priority: item.priority,
+              },
+            ];
+            if (invalidKey) {
+              probes.push({
+                path: [...path, invalidKey],
+                parentId: nodeId,
+                depth: depth + 1,
+                probe: { outcome: "invalid_input", attempt: 1 },
+                priority: item.priority,
+              });
+            }
+            children.push(...probes);
           }
-
-          await session.hangup();
+          frontier.addChildren(children);
         } else {
+          // Speech menus name their phrases; open-ended prompts get the project's utterances
+          const spoken = extracted.filter((o) => o.kind === "speech").map((o) => o.speech ?? o.label);
+          const openEnded = isOpenEndedPrompt(result.transcript);
+          const phrases = spoken.length > 0 ? spoken : openEnded ? utterances : [];
+
           const lower = result.transcript.toLowerCase();
-          if (
-            (lower.includes("enter") || lower.includes("pin")) &&
-            options.length === 0
-          ) {
+          const needsInput =
+            entry !== undefined || (phrases.length === 0 && (lower.includes("enter") || lower.includes("pin")));
+          const supplied = needsInput
+            ? selectCredential(vault, entry?.label ?? "") ?? selectCredential(vault, result.transcript)
+            : null;
+
+          if (supplied) {
+            await log(`Node requires input. Entering "${supplied.name}" from the input vault.`);
+            frontier.addChildren([
+              {
+                path: [...path, credentialStep(supplied.name, entry?.terminator)],
+                parentId: nodeId,
+                depth: depth + 1,
+                label: supplied.name,
+                priority: item.priority,
+              },
+            ]);
+          } else if (needsInput) {
+            const waitingFor = entry?.label ?? "PIN/ID";
             await log(
-              "Node requires input (PIN/ID). Pausing for human intervention.",
+              `Node requires input (${waitingFor}) and no input vault credential matches. Pausing for human intervention.`,
               "warning"
             );
 
-            stack.push({ path, parentId, depth });
+            frontier.requeue(item);
 
-            await session.hangup();
+            await navigator.release();
 
             await ctx.runMutation(internal.discovery.setWaiting, {
               jobId,
-              waitingFor: "PIN/ID",
-              resumeState: JSON.stringify(stack),
+              waitingFor,
+              resumeState: frontier.serialize(),
+              crawlStats: crawlStats(),
             });
             return;
-          }
+          } else if (phrases.length > 0) {
+            const limit = policy.maxOptionsPerMenu ?? phrases.length;
+            const tried = phrases.slice(0, limit);
+            pruned.maxOptionsPerMenu += phrases.length - tried.length;
+            await log(
+              `Speech prompt. Trying ${tried.length} utterance(s): ${tried
+                .map((p) => `"${p}"`)
+                .join(" | ")}`
+            );
 
-          await log("No further options found. Leaf node.");
-          await session.hangup();
+            frontier.addChildren(
+              tried.map((p) => ({
+                path: [...path, speechStep(p)],
+                parentId: nodeId,
+                depth: depth + 1,
+                label: p,
+                priority: item.priority,
+              }))
+            );
+          } else if (openEnded) {
+            await log(
+              "Open-ended prompt, but this project has no speech utterances configured. Leaf node.",
+              "warning"
+            );
+          } else {
+            await log("No further options found. Leaf node.");
+          }
         }
       }
 
+      await navigator.release();
+
+      // Every branch is crawled; a retry after this point only rebuilds the artifacts
+      await ctx.runMutation(internal.discovery.checkpoint, {
+        jobId,
+        resumeState: frontier.serialize(),
+        crawlStats: crawlStats(),
+      });
+
       await log("Generating artifacts...");
 
-      const nodes = await ctx.runQuery(api.discovery.getNodes, { projectId });
-      const graphJson = JSON.stringify({ nodes, edges: [] }, null, 2);
+      const nodes = await ctx.runQuery(internal.discovery.getNodesInternal, { projectId, jobId });
+      const graph = buildGraph(nodes);
+      const graphJson = JSON.stringify(graph, null, 2);
+
+      // Re-link existing tests before generating, so relinked nodes are not generated twice
+      const reconciliation = await ctx.runMutation(internal.testCases.reconcile, {
+        projectId,
+        jobId,
+      });
+      await log(
+        `Reconciled test cases: ${reconciliation.relinked} relinked, ${reconciliation.flagged} need review, ${reconciliation.cleared} cleared.`
+      );
 
       const reportJson = JSON.stringify(
         {
@@ -552,7 +547,20 @@ export const runDiscovery = action({
             ...metrics,
             duration: Date.now() - metrics.startTime,
             totalNodes: nodes.length,
+            totalEdges: graph.edges.length,
+            callsPlaced: navigator.metrics.callsPlaced,
+            probeCalls: navigator.metrics.probeCalls,
+            redials: navigator.metrics.redials,
+            backtracks: navigator.metrics.backtracks,
+            airtimeSavedSeconds: Math.round(navigator.metrics.airtimeSavedMs / 100) / 10,
           },
+          policy: {
+            ...policy,
+            maxDepth,
+            budgetExhausted,
+            pruned,
+          },
+          reconciliation,
           timestamp: new Date().toISOString(),
         },
         null,
@@ -561,10 +569,13 @@ export const runDiscovery = action({
 
       const testGenResult = await ctx.runMutation(
         internal.testCases.generateInternal,
-        { projectId }
+        { projectId, jobId }
+      );
+      await log(
+        `Generated ${testGenResult.created} test case(s); skipped ${testGenResult.skippedExisting} existing and ${testGenResult.skippedLoop} loop target(s).`
       );
       const testCasesJson = JSON.stringify(
-        testGenResult.generatedTests || [],
+        testGenResult.tests,
         null,
         2
       );
@@ -582,6 +593,7 @@ export const runDiscovery = action({
         },
       });
     } catch (error: any) {
+      await navigator.release().catch(() => undefined);
       await log(`Critical Failure: ${error.message}`, "error");
       await ctx.runMutation(internal.discovery.completeJob, {
         jobId,
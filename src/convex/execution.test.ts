@@ -0,0 +1,222 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import schema from "./schema";
+import { ROLES } from "./schema";
+import { STALE_RUN_MS } from "./execution";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Scheduled test calls stay queued: the clock is moved with setSystemTime, which fires no timers
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    const testCaseIds = [];
+    for (const title of ["Billing", "Sales", "Support"]) {
+      testCaseIds.push(
+        await ctx.db.insert("test_cases", {
+          projectId,
+          title,
+          steps: [{ action: "call", value: "+15550100" }],
+          status: "approved",
+          tags: [],
+        })
+      );
+    }
+    const suiteId = await ctx.db.insert("test_suites", { projectId, name: "Smoke", concurrency: 2 });
+    return { userId, projectId, testCaseIds, suiteId };
+  });
+  return { t, ...ids, asAlice: t.withIdentity({ subject: `${ids.userId}|session` }) };
+}
+
+const passed = { status: "pass", logs: [], duration: 1000, stepResults: [] };
+
+describe("suite runs", () => {
+  test("start up to the suite's concurrency and queue the rest", async () => {
+    const { t, asAlice, suiteId, testCaseIds } = await setup();
+
+    const { runId } = await asAlice.mutation(api.execution.createSuiteRun, { suiteId });
+    let run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run?.pendingTestCaseIds).toEqual([testCaseIds[2]]);
+
+    await t.mutation(internal.execution.recordResult, { runId, testCaseId: testCaseIds[0], ...passed });
+    run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run).toMatchObject({ status: "running", passed: 1, pendingTestCaseIds: [] });
+
+    await t.mutation(internal.execution.recordResult, { runId, testCaseId: testCaseIds[1], ...passed });
+    await t.mutation(internal.execution.recordResult, { runId, testCaseId: testCaseIds[2], ...passed });
+    run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run).toMatchObject({ status: "completed", passed: 3, failed: 0, summary: "Smoke: all 3 passed" });
+  });
+});
+
+describe("recordResult", () => {
+  test("masks input vault values in logs and step transcripts", async () => {
+    const { t, asAlice, projectId, testCaseIds } = await setup();
+    await t.run((ctx) =>
+      ctx.db.insert("test_credentials", { projectId, name: "PIN", type: "pin", value: "4821" })
+    );
+    const runId = await asAlice.mutation(api.execution.createRun, { testCaseId: testCaseIds[0] });
+
+    await t.mutation(internal.execution.recordResult, {
+      runId,
+      testCaseId: testCaseIds[0],
+      status: "fail",
+      logs: ['Step 2: Sent DTMF {{vault:PIN}}. Heard "You entered 4821. Press 1 to confirm."'],
+      duration: 1000,
+      stepResults: [
+        {
+          stepIndex: 1,
+          action: "dtmf",
+          expected: "You entered 4821",
+          actual: "You entered 4821. Press 1 to confirm.",
+          status: "pass",
+          timestamp: Date.now(),
+        },
+      ],
+    });
+
+    const [result] = await t.run((ctx) => ctx.db.query("test_results").collect());
+    expect(result.logs).toEqual(['Step 2: Sent DTMF {{vault:PIN}}. Heard "You entered [PIN]. Press 1 to confirm."']);
+    expect(result.stepResults).toMatchObject([
+      { expected: "You entered [PIN]", actual: "You entered [PIN]. Press 1 to confirm." },
+    ]);
+  });
+});
+
+describe("failStaleRuns", () => {
+  test("fails runs with no result for STALE_RUN_MS and ignores their late results", async () => {
+    const { t, asAlice, suiteId, testCaseIds } = await setup();
+    const { runId } = await asAlice.mutation(api.execution.createSuiteRun, { suiteId });
+    await t.mutation(internal.execution.recordResult, { runId, testCaseId: testCaseIds[0], ...passed });
+
+    const start = Date.now();
+    vi.setSystemTime(start + STALE_RUN_MS - 1000);
+    await t.mutation(internal.execution.failStaleRuns, {});
+    expect((await t.run((ctx) => ctx.db.get(runId)))?.status).toBe("running");
+
+    vi.setSystemTime(start + STALE_RUN_MS + 1000);
+    await t.mutation(internal.execution.failStaleRuns, {});
+    const run = await t.run((ctx) => ctx.db.get(runId));
+    expect(run?.status).toBe("failed");
+    expect(run?.endTime).toBeDefined();
+    expect(run?.pendingTestCaseIds).toBeUndefined();
+    expect(run?.summary).toContain("timed out after 1 of 3 run");
+
+    await t.mutation(internal.execution.recordResult, { runId, testCaseId: testCaseIds[1], ...passed });
+    const results = await t.run((ctx) => ctx.db.query("test_results").collect());
+    expect(results).toHaveLength(1);
+  });
+});
+
+// The text simulator answers "(Simulated) You selected <label>." for each option
+const TRANSCRIPT = "Press 1 for billing. Press 2 for sales.";
+
+describe("runTest", () => {
+  test("replays a generated test with its source job's input type after a newer discovery", async () => {
+    const { t, asAlice, projectId } = await setup();
+    const testCaseId = await t.run(async (ctx) => {
+      const sourceJobId = await ctx.db.insert("discovery_jobs", {
+        projectId,
+        status: "completed",
+        entryPoint: TRANSCRIPT,
+        inputType: "text",
+        startTime: Date.now(),
+      });
+      await ctx.db.insert("discovery_jobs", {
+        projectId,
+        status: "completed",
+        entryPoint: "+15550199",
+        startTime: Date.now(),
+      });
+      return await ctx.db.insert("test_cases", {
+        projectId,
+        sourceJobId,
+        title: "Verify Main Menu › Option 1",
+        steps: [
+          { action: "call", value: TRANSCRIPT },
+          { action: "listen", value: TRANSCRIPT },
+          { action: "dtmf", value: "1" },
+          { action: "listen", value: "(Simulated) You selected billing." },
+        ],
+        status: "approved",
+        tags: [],
+      });
+    });
+
+    const runId = await asAlice.mutation(api.execution.createRun, { testCaseId });
+    await t.action(internal.executionActions.runTest, { runId, testCaseId });
+
+    const [result] = await t.run((ctx) => ctx.db.query("test_results").collect());
+    expect(result.status).toBe("pass");
+    expect(result.stepResults?.map((s) => s.status)).toEqual(["pass", "pass", "pass", "pass"]);
+  });
+
+  test("replays every step over the simulated session and records latencies", async () => {
+    const { t, asAlice, projectId } = await setup();
+    const testCaseId = await t.run((ctx) =>
+      ctx.db.insert("test_cases", {
+        projectId,
+        title: "Billing, then silence",
+        steps: [
+          { action: "call", value: TRANSCRIPT },
+          { action: "listen", value: TRANSCRIPT },
+          { action: "dtmf", value: "1" },
+          { action: "listen", value: "(Simulated) You selected billing." },
+          { action: "wait", value: "5" },
+          { action: "listen", value: "Goodbye." },
+        ],
+        status: "approved",
+        tags: [],
+      })
+    );
+    await t.run((ctx) =>
+      ctx.db.insert("discovery_jobs", {
+        projectId,
+        status: "completed",
+        entryPoint: TRANSCRIPT,
+        inputType: "text",
+        startTime: Date.now(),
+      })
+    );
+
+    const runId = await asAlice.mutation(api.execution.createRun, { testCaseId });
+    await t.action(internal.executionActions.runTest, { runId, testCaseId });
+
+    const [result] = await t.run((ctx) => ctx.db.query("test_results").collect());
+    expect(result.status).toBe("fail");
+    expect(
+      result.stepResults?.map((s) => [s.action, s.status, typeof s.latencyMs === "number"])
+    ).toEqual([
+      ["call", "pass", true],
+      ["listen", "pass", false],
+      ["dtmf", "pass", true],
+      ["listen", "pass", false],
+      ["wait", "pass", true],
+      ["listen", "fail", false],
+    ]);
+    expect(result.stepResults?.[4].actual).toBe(
+      "Sorry, we didn't receive any input. (Simulated) You selected billing."
+    );
+    expect((await t.run((ctx) => ctx.db.get(runId)))?.status).toBe("completed");
+  });
+});
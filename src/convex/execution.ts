@@ -1,88 +1,209 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAccessibleDoc, getAccessibleProject, requireProjectDoc } from "./access";
+import { maskCredentials } from "./inputVault";
+import { DEFAULT_SUITE_CONCURRENCY, getSuiteMembers } from "./suites";
 
-export const runTest = mutation({
+export const createRun = mutation({
   args: { testCaseId: v.id("test_cases") },
   handler: async (ctx, args) => {
-    const testCase = await ctx.db.get(args.testCaseId);
-    if (!testCase) throw new Error("Test case not found");
+    const testCase = await requireProjectDoc(ctx, args.testCaseId, "Test case");
 
-    // Create a run record
     const runId = await ctx.db.insert("test_runs", {
       projectId: testCase.projectId,
       status: "running",
       startTime: Date.now(),
       summary: `Execution of ${testCase.title}`,
     });
+    await ctx.scheduler.runAfter(0, internal.executionActions.runTest, { runId, testCaseId: testCase._id });
+    return runId;
+  },
+});
 
-    // Simulate execution logic
-    const stepResults = [];
-    let overallStatus = "pass";
-    const logs = ["Initializing test agent...", `Dialing ${testCase.steps.find(s => s.action === 'call')?.value || 'target'}...`];
-    
-    // Artificial delay for realism
-    const startTime = Date.now();
-
-    for (const [index, step] of testCase.steps.entries()) {
-      const stepResult: any = {
-        stepIndex: index,
-        action: step.action,
-        timestamp: Date.now() + (index * 1000),
-        status: "pass"
-      };
-
-      if (step.action === "listen") {
-        stepResult.expected = step.value;
-        
-        // 80% chance to match exactly, 20% chance to have a mismatch or noise
-        const isSuccess = Math.random() > 0.2;
-        
-        if (isSuccess) {
-          stepResult.actual = step.value;
-          logs.push(`Step ${index + 1}: Verified prompt matches expected.`);
-        } else {
-          // Simulate a slight mismatch
-          stepResult.actual = step.value + " [unexpected noise]";
-          stepResult.status = "fail";
-          overallStatus = "fail";
-          logs.push(`Step ${index + 1}: Mismatch! Expected "${step.value}" but heard "${stepResult.actual}"`);
-        }
-      } else if (step.action === "dtmf") {
-        stepResult.expected = step.value;
-        stepResult.actual = step.value; // DTMF usually succeeds in simulation
-        logs.push(`Step ${index + 1}: Sent DTMF ${step.value}`);
-      } else {
-        logs.push(`Step ${index + 1}: Performed ${step.action}`);
-      }
-
-      stepResults.push(stepResult);
-    }
+/**
+ * Use this function internally to start a suite run: one test_runs row that
+ * collects a result per member. The first `concurrency` members are scheduled
+ * here and the rest wait in pendingTestCaseIds; recordResult starts the next
+ * one as each result lands. Callers check access to the suite first.
+ */
+export const startSuiteRun = async (
+  ctx: MutationCtx,
+  suite: Doc<"test_suites">,
+  source: { trigger: "schedule"; scheduleId: Id<"monitor_schedules"> } | { trigger: "manual" | "api" } = {
+    trigger: "manual",
+  }
+) => {
+  const members = await getSuiteMembers(ctx, suite);
+  if (members.length === 0) throw new Error(`Suite "${suite.name}" has no test cases to run`);
+
+  const testCaseIds = members.map((t) => t._id);
+  const concurrency = suite.concurrency ?? DEFAULT_SUITE_CONCURRENCY;
+  const runId = await ctx.db.insert("test_runs", {
+    projectId: suite.projectId,
+    campaignId: suite._id,
+    ...source,
+    status: "running",
+    startTime: Date.now(),
+    summary: `${suite.name}: 0 of ${members.length} run`,
+    totalTests: members.length,
+    passed: 0,
+    failed: 0,
+    pendingTestCaseIds: testCaseIds.slice(concurrency),
+  });
+
+  for (const testCaseId of testCaseIds.slice(0, concurrency)) {
+    await ctx.scheduler.runAfter(0, internal.executionActions.runTest, { runId, testCaseId });
+  }
+  return { runId, testCaseIds, concurrency };
+};
+
+export const createSuiteRun = mutation({
+  args: { suiteId: v.id("test_suites") },
+  handler: async (ctx, args) => {
+    const suite = await requireProjectDoc(ctx, args.suiteId, "Suite");
+    return await startSuiteRun(ctx, suite);
+  },
+});
 
-    logs.push(`Test finished with status: ${overallStatus.toUpperCase()}`);
+export const recordResult = internalMutation({
+  args: {
+    runId: v.id("test_runs"),
+    testCaseId: v.id("test_cases"),
+    status: v.string(),
+    logs: v.array(v.string()),
+    duration: v.number(),
+    recordingUrl: v.optional(v.string()),
+    stepResults: v.array(
+      v.object({
+        stepIndex: v.number(),
+        action: v.string(),
+        expected: v.optional(v.string()),
+        actual: v.optional(v.string()),
+        status: v.string(),
+        timestamp: v.number(),
+        latencyMs: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    // A run failed by failStaleRun keeps that outcome; late results are dropped
+    if (!run || run.status !== "running") return;
 
+    // Input vault values the IVR read back, or that an error quoted, are replaced by their names
+    const credentials = await ctx.db
+      .query("test_credentials")
+      .withIndex("by_project", (q) => q.eq("projectId", run.projectId))
+      .collect();
+    const mask = (text: string | undefined) => text && maskCredentials(text, credentials);
     await ctx.db.insert("test_results", {
-      runId,
+      runId: args.runId,
       testCaseId: args.testCaseId,
-      status: overallStatus,
-      logs: logs,
-      duration: Date.now() - startTime + 1500, // Add some base latency
-      stepResults: stepResults,
-      recordingUrl: "https://upload.wikimedia.org/wikipedia/commons/transcoded/d/d0/Armstrong_Small_Step.ogg/Armstrong_Small_Step.ogg.mp3", // Reliable sample audio
+      status: args.status,
+      logs: args.logs.map((message) => maskCredentials(message, credentials)),
+      duration: args.duration,
+      recordingUrl: args.recordingUrl,
+      stepResults: args.stepResults.map((step) => ({
+        ...step,
+        expected: mask(step.expected),
+        actual: mask(step.actual),
+      })),
     });
 
-    await ctx.db.patch(runId, {
-      status: "completed",
-      endTime: Date.now(),
-      summary: overallStatus === "pass" ? "All steps passed" : "Steps failed during execution"
+    if (run.totalTests === undefined) {
+      await ctx.db.patch(args.runId, {
+        status: "completed",
+        endTime: Date.now(),
+        summary: args.status === "pass" ? "All steps passed" : "Steps failed during execution",
+      });
+      await ctx.scheduler.runAfter(0, internal.alerts.evaluateRun, { runId: args.runId });
+      return;
+    }
+
+    // Suite runs tally each result, start the next pending test and complete with the last one
+    const passed = (run.passed ?? 0) + (args.status === "pass" ? 1 : 0);
+    const failed = (run.failed ?? 0) + (args.status === "pass" ? 0 : 1);
+    const done = passed + failed >= run.totalTests;
+    const [next, ...pending] = run.pendingTestCaseIds ?? [];
+    const suiteName = await getSuiteName(ctx, run);
+    await ctx.db.patch(args.runId, {
+      passed,
+      failed,
+      status: done ? "completed" : "running",
+      endTime: done ? Date.now() : undefined,
+      lastProgressAt: Date.now(),
+      pendingTestCaseIds: pending,
+      summary: !done
+        ? `${suiteName}: ${passed + failed} of ${run.totalTests} run`
+        : failed === 0
+          ? `${suiteName}: all ${passed} passed`
+          : `${suiteName}: ${passed} passed, ${failed} failed`,
     });
+    if (next) {
+      await ctx.scheduler.runAfter(0, internal.executionActions.runTest, { runId: args.runId, testCaseId: next });
+    }
+    if (done) await ctx.scheduler.runAfter(0, internal.alerts.evaluateRun, { runId: args.runId });
+  },
+});
 
-    return runId;
+// --- Stale Runs --- //
+
+// Convex stops an action after 10 minutes, so a test still in flight reports well within this
+export const STALE_RUN_MS = 15 * 60 * 1000;
+
+/** True for a running run with no result for STALE_RUN_MS: the tests it waits on are gone. */
+export function isStaleRun(run: Doc<"test_runs">, now: number): boolean {
+  return run.status === "running" && (run.lastProgressAt ?? run.startTime) < now - STALE_RUN_MS;
+}
+
+async function getSuiteName(ctx: QueryCtx, run: Doc<"test_runs">) {
+  const suiteId = run.campaignId ? ctx.db.normalizeId("test_suites", run.campaignId) : null;
+  return (suiteId && (await ctx.db.get(suiteId))?.name) ?? "Suite";
+}
+
+/**
+ * Use this function internally to give up on a run that stopped reporting
+ * results: it is marked failed with what it recorded so far, and alert rules
+ * are evaluated for it like for a completed run.
+ */
+export const failStaleRun = async (ctx: MutationCtx, run: Doc<"test_runs">) => {
+  const stalled = `no result for ${Math.round(STALE_RUN_MS / 60_000)} minutes`;
+  const reported = (run.passed ?? 0) + (run.failed ?? 0);
+  const summary =
+    run.totalTests === undefined
+      ? `Timed out: ${stalled}`
+      : `${await getSuiteName(ctx, run)}: timed out after ${reported} of ${run.totalTests} run, ${stalled}`;
+  await ctx.db.patch(run._id, {
+    status: "failed",
+    endTime: Date.now(),
+    pendingTestCaseIds: undefined,
+    summary,
+  });
+  await ctx.scheduler.runAfter(0, internal.alerts.evaluateRun, { runId: run._id });
+};
+
+/** Fails every stale run; scheduled by crons.ts. */
+export const failStaleRuns = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const running = await ctx.db
+      .query("test_runs")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .collect();
+    for (const run of running) {
+      if (isStaleRun(run, now)) await failStaleRun(ctx, run);
+    }
   },
 });
 
 export const getRuns = query({
   args: { projectId: v.id("projects") },
   handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
     return await ctx.db
       .query("test_runs")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
@@ -94,9 +215,26 @@ export const getRuns = query({
 export const getResults = query({
   args: { runId: v.id("test_runs") },
   handler: async (ctx, args) => {
-    return await ctx.db
+    if (!(await getAccessibleDoc(ctx, args.runId))) return [];
+
+    const results = await ctx.db
       .query("test_results")
       .withIndex("by_run", (q) => q.eq("runId", args.runId))
       .collect();
+    // Titles of deleted test cases are gone; the page falls back to the id
+    return await Promise.all(
+      results.map(async (result) => ({
+        ...result,
+        testCaseTitle: (await ctx.db.get(result.testCaseId))?.title,
+      }))
+    );
   },
-});
\ No newline at end of file
+});
+
+// Used by executionActions.ts, which runs without a signed-in user
+export const getRunInternal = internalQuery({
+  args: { runId: v.id("test_runs") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.runId);
+  },
+});
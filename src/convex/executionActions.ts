@@ -0,0 +1,235 @@
+"use node";
+
+import { v } from "convex/values";
+import { ActionCtx, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { evaluateListen } from "./assertions";
+import { resolveVaultReferences } from "./inputVault";
+import {
+  AudioProcessingResult,
+  createTelephonySession,
+  normalizeEntryPoint,
+  RealTelephonySession,
+} from "./telephony";
+import { PLACEHOLDER_ENTRY_POINT } from "./testGeneration";
+
+type StepResult = {
+  stepIndex: number;
+  action: string;
+  expected?: string;
+  actual?: string;
+  status: string;
+  timestamp: number;
+  latencyMs?: number;
+};
+
+/** Sends one input, using the round trip as latency when the backend does not measure it. */
+async function timed(
+  send: () => Promise<AudioProcessingResult>
+): Promise<AudioProcessingResult & { latencyMs: number }> {
+  const start = Date.now();
+  const result = await send();
+  return { ...result, latencyMs: result.latencyMs ?? Date.now() - start };
+}
+
+// --- Action: The Test Agent (replays test_cases.steps over a TelephonySession) --- //
+
+type RunTestArgs = {
+  runId: Id<"test_runs">;
+  projectId: Id<"projects">;
+  testCaseId: Id<"test_cases">;
+  inputType?: string;
+};
+
+/**
+ * Places one test call and records its result on the run. Scheduled by
+ * execution.createRun for single tests, and by execution.startSuiteRun and
+ * execution.recordResult for suite members, after access was checked. Runs
+ * that have finished since are left alone; a test that cannot be run is
+ * recorded as failed, so its run still completes.
+ */
+export const runTest = internalAction({
+  args: {
+    runId: v.id("test_runs"),
+    testCaseId: v.id("test_cases"),
+    inputType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.runQuery(internal.execution.getRunInternal, { runId: args.runId });
+    if (!run || run.status !== "running") return;
+
+    try {
+      await replayTest(ctx, { ...args, projectId: run.projectId });
+    } catch (error) {
+      await ctx.runMutation(internal.execution.recordResult, {
+        runId: args.runId,
+        testCaseId: args.testCaseId,
+        status: "fail",
+        logs: [`Test could not be run: ${error instanceof Error ? error.message : String(error)}`],
+        duration: 0,
+        stepResults: [],
+      });
+    }
+  },
+});
+
+/** Replays the test case over a telephony session and records its result. */
+async function replayTest(ctx: ActionCtx, args: RunTestArgs) {
+  const testCase = await ctx.runQuery(internal.testCases.getInternal, { id: args.testCaseId });
+  if (!testCase) throw new Error("Test case not found");
+  if (testCase.projectId !== args.projectId) throw new Error("Test case belongs to another project");
+
+  const logs: string[] = ["Initializing test agent..."];
+  const stepResults: StepResult[] = [];
+  const startTime = Date.now();
+  let overallStatus = "pass";
+  let recordingUrl: string | undefined;
+
+  // Resolve what to dial. Tests generated from discovery inherit their source
+  // job's entry point and input type so simulated/transcript crawls replay
+  // offline; older tests fall back to the latest job.
+  let entryPoint = testCase.steps.find((s) => s.action === "call")?.value;
+  let inputType = args.inputType;
+  if (inputType === undefined) {
+    const job = testCase.sourceJobId
+      ? await ctx.runQuery(internal.discovery.getJobInternal, { jobId: testCase.sourceJobId })
+      : await ctx.runQuery(internal.discovery.getLatestJobInternal, { projectId: testCase.projectId });
+    if (
+      job &&
+      (!entryPoint ||
+        entryPoint === PLACEHOLDER_ENTRY_POINT ||
+        normalizeEntryPoint(entryPoint) === normalizeEntryPoint(job.entryPoint))
+    ) {
+      entryPoint = job.entryPoint;
+      inputType = job.inputType;
+    }
+  }
+
+  if (!entryPoint) {
+    logs.push("Test case has no call step and no discovery entry point to dial.");
+    await ctx.runMutation(internal.execution.recordResult, {
+      runId: args.runId,
+      testCaseId: args.testCaseId,
+      status: "fail",
+      logs,
+      duration: Date.now() - startTime,
+      stepResults,
+    });
+    return;
+  }
+
+  let session;
+  try {
+    session = createTelephonySession(entryPoint, inputType, process.env.TELEPHONY_BACKEND_URL);
+  } catch (error) {
+    logs.push(`Critical Failure: ${error instanceof Error ? error.message : String(error)}`);
+    await ctx.runMutation(internal.execution.recordResult, {
+      runId: args.runId,
+      testCaseId: args.testCaseId,
+      status: "fail",
+      logs,
+      duration: Date.now() - startTime,
+      stepResults,
+    });
+    return;
+  }
+
+  logs.push(
+    `Created session: ${
+      session instanceof RealTelephonySession ? "RealTelephonySession" : "SimulatedTelephonySession"
+    } (inputType=${inputType ?? "none"})`
+  );
+
+  let lastPrompt: (AudioProcessingResult & { latencyMs: number }) | null = null;
+  const vault = testCase.steps.some((s) => s.value.includes("{{vault:"))
+    ? await ctx.runQuery(internal.credentials.listForProject, { projectId: testCase.projectId })
+    : [];
+
+  try {
+    for (const [index, step] of testCase.steps.entries()) {
+      const stepResult: StepResult = {
+        stepIndex: index,
+        action: step.action,
+        status: "pass",
+        timestamp: Date.now(),
+      };
+      stepResults.push(stepResult);
+
+      try {
+        if (step.action === "call") {
+          logs.push(`Step ${index + 1}: Dialing ${step.value}...`);
+          lastPrompt = await timed(() => session.dial());
+          stepResult.latencyMs = lastPrompt.latencyMs;
+          recordingUrl = recordingUrl || lastPrompt.audioUrl || undefined;
+          stepResult.actual = lastPrompt.transcript;
+          logs.push(`Step ${index + 1}: Connected. Heard "${lastPrompt.transcript}"`);
+        } else if (step.action === "listen") {
+          stepResult.expected = step.value;
+          if (!lastPrompt) {
+            stepResult.status = "fail";
+            overallStatus = "fail";
+            logs.push(`Step ${index + 1}: No prompt has been heard yet.`);
+          } else {
+            // The reason, not just the transcript, so results explain each assertion
+            const outcome = evaluateListen(step, lastPrompt);
+            stepResult.actual = outcome.reason;
+            if (outcome.pass) {
+              logs.push(`Step ${index + 1}: Verified prompt. ${outcome.reason}`);
+            } else {
+              stepResult.status = "fail";
+              overallStatus = "fail";
+              logs.push(`Step ${index + 1}: Assertion failed! ${outcome.reason}`);
+            }
+          }
+        } else if (step.action === "dtmf") {
+          stepResult.expected = step.expected;
+          // Logs keep the "{{vault:Name}}" reference, never the credential value
+          lastPrompt = await timed(() => session.sendDtmf(resolveVaultReferences(step.value, vault)));
+          stepResult.latencyMs = lastPrompt.latencyMs;
+          recordingUrl = recordingUrl || lastPrompt.audioUrl || undefined;
+          stepResult.actual = lastPrompt.transcript;
+          logs.push(`Step ${index + 1}: Sent DTMF ${step.value}. Heard "${lastPrompt.transcript}"`);
+        } else if (step.action === "speak") {
+          stepResult.expected = step.expected;
+          lastPrompt = await timed(() => session.speak(step.value));
+          stepResult.latencyMs = lastPrompt.latencyMs;
+          recordingUrl = recordingUrl || lastPrompt.audioUrl || undefined;
+          stepResult.actual = lastPrompt.transcript;
+          logs.push(`Step ${index + 1}: Said "${step.value}". Heard "${lastPrompt.transcript}"`);
+        } else if (step.action === "wait") {
+          stepResult.expected = step.expected;
+          lastPrompt = await timed(() => session.wait(Number(step.value)));
+          stepResult.latencyMs = lastPrompt.latencyMs;
+          recordingUrl = recordingUrl || lastPrompt.audioUrl || undefined;
+          stepResult.actual = lastPrompt.transcript;
+          logs.push(`Step ${index + 1}: Stayed silent for ${step.value}s. Heard "${lastPrompt.transcript}"`);
+        } else {
+          stepResult.status = "fail";
+          overallStatus = "fail";
+          logs.push(`Step ${index + 1}: Action "${step.action}" is not supported by the test agent.`);
+        }
+      } catch (error) {
+        stepResult.status = "fail";
+        stepResult.actual = error instanceof Error ? error.message : String(error);
+        overallStatus = "fail";
+        logs.push(`Step ${index + 1}: Error - ${stepResult.actual}. Aborting remaining steps.`);
+        break;
+      }
+    }
+  } finally {
+    await session.hangup();
+  }
+
+  logs.push(`Test finished with status: ${overallStatus.toUpperCase()}`);
+
+  await ctx.runMutation(internal.execution.recordResult, {
+    runId: args.runId,
+    testCaseId: args.testCaseId,
+    status: overallStatus,
+    logs,
+    duration: Date.now() - startTime,
+    stepResults,
+    recordingUrl,
+  });
+}
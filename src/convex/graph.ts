@@ -0,0 +1,135 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import { classifyPromptOutcome, fingerprintPrompt } from "./prompts";
+
+// --- Graph Model (graph.json artifact) --- //
+
+export type EdgeType = "dtmf" | "speech" | "loop_back" | "timeout" | "invalid_input";
+
+export type GraphEdge = {
+  id: string;
+  type: EdgeType;
+  source: Id<"ivr_nodes">;
+  target: Id<"ivr_nodes">;
+  input?: string; // DTMF digit(s) or utterance that trigger the transition, if any
+};
+
+export type GraphModel = {
+  nodes: Doc<"ivr_nodes">[];
+  edges: GraphEdge[];
+};
+
+/**
+ * Builds a directed graph from crawled ivr_nodes.
+ *
+ *  - parentId + metadata.dtmf    → dtmf edge (parent → child)
+ *  - parentId + metadata.utterance → speech edge (parent → child)
+ *  - parentId + metadata.credential → dtmf edge whose input names the vault credential
+ *  - child prompt is an error    → invalid_input / timeout edge instead of dtmf
+ *  - metadata.probe              → the probed invalid_input / timeout edge, whatever was heard
+ *  - isLoop + linkedNodeId       → loop_back edge (loop node → original node)
+ */
+export function buildGraph(nodes: Doc<"ivr_nodes">[]): GraphModel {
+  const edges: GraphEdge[] = [];
+
+  for (const node of nodes) {
+    if (node.parentId) {
+      const utterance = node.metadata?.utterance;
+      const input =
+        utterance !== undefined
+          ? String(utterance)
+          : node.metadata?.credential !== undefined
+            ? `[${node.metadata.credential}]`
+            : node.metadata?.dtmf !== undefined
+              ? String(node.metadata.dtmf)
+              : undefined;
+      const type: EdgeType =
+        node.metadata?.probe ??
+        classifyPromptOutcome(node.content) ??
+        (utterance !== undefined ? "speech" : "dtmf");
+      edges.push({
+        id: `${type}:${node.parentId}->${node._id}`,
+        type,
+        source: node.parentId,
+        target: node._id,
+        input,
+      });
+    }
+
+    if (node.isLoop && node.linkedNodeId) {
+      edges.push({
+        id: `loop_back:${node._id}->${node.linkedNodeId}`,
+        type: "loop_back",
+        source: node._id,
+        target: node.linkedNodeId,
+      });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+// --- Graph Diff (between two discovery snapshots) --- //
+
+export type SnapshotPrompt = {
+  path: string; // ">"-joined input path, "" for the main menu
+  label: string;
+  fingerprint: string;
+  content: string;
+};
+
+export type GraphDiff = {
+  added: SnapshotPrompt[];
+  removed: SnapshotPrompt[];
+  changed: { path: string; before: SnapshotPrompt; after: SnapshotPrompt }[];
+  moved: { from: SnapshotPrompt; to: SnapshotPrompt }[]; // Same prompt, reached by a different path
+  unchanged: number;
+};
+
+function snapshotPrompts(nodes: Doc<"ivr_nodes">[]): Map<string, SnapshotPrompt> {
+  const prompts = new Map<string, SnapshotPrompt>();
+  for (const node of nodes) {
+    // Nodes crawled before paths were recorded are keyed by label
+    const path = typeof node.metadata?.path === "string" ? node.metadata.path : node.label;
+    if (prompts.has(path)) continue;
+    prompts.set(path, {
+      path,
+      label: node.label,
+      // Recomputed so snapshots fingerprinted with different versions compare equal
+      fingerprint: fingerprintPrompt(node.content),
+      content: node.content,
+    });
+  }
+  return prompts;
+}
+
+/**
+ * Compares two snapshots path by path. A prompt whose path disappeared but
+ * whose fingerprint shows up at a new path is reported as moved rather than
+ * as a removal plus an addition.
+ */
+export function diffGraphs(before: Doc<"ivr_nodes">[], after: Doc<"ivr_nodes">[]): GraphDiff {
+  const base = snapshotPrompts(before);
+  const target = snapshotPrompts(after);
+  const diff: GraphDiff = { added: [], removed: [], changed: [], moved: [], unchanged: 0 };
+
+  for (const [path, prompt] of target) {
+    const previous = base.get(path);
+    if (!previous) diff.added.push(prompt);
+    else if (previous.fingerprint !== prompt.fingerprint) {
+      diff.changed.push({ path, before: previous, after: prompt });
+    } else diff.unchanged++;
+  }
+  for (const [path, prompt] of base) {
+    if (!target.has(path)) diff.removed.push(prompt);
+  }
+
+  for (const from of [...diff.removed]) {
+    const to = diff.added.find((a) => a.fingerprint === from.fingerprint);
+    if (!to) continue;
+    diff.moved.push({ from, to });
+    diff.removed.splice(diff.removed.indexOf(from), 1);
+    diff.added.splice(diff.added.indexOf(to), 1);
+  }
+
+  return diff;
+}
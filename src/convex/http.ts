@@ -1,8 +1,13 @@
 import { httpRouter } from "convex/server";
 import { auth } from "./auth";
+import { handle as handleApiRequest } from "./publicApi";
 
 const http = httpRouter();
 
 auth.addHttpRoutes(http);
 
+// Public API for CI, authenticated with project API keys (see publicApi.ts)
+http.route({ pathPrefix: "/api/v1/", method: "GET", handler: handleApiRequest });
+http.route({ pathPrefix: "/api/v1/", method: "POST", handler: handleApiRequest });
+
 export default http;
@@ -0,0 +1,78 @@
+import type { CredentialType } from "./schema";
+
+// --- Input Vault (test credentials supplied at data-entry prompts) --- //
+
+export type VaultCredential = {
+  name: string;
+  type: CredentialType;
+  value: string;
+};
+
+// Checked in order, so "account PIN" is a PIN rather than an account number
+const PROMPT_TYPES: [CredentialType, RegExp][] = [
+  ["date_of_birth", /\b(?:date of birth|birth ?date|birthday|dob)\b/i],
+  ["ssn_last4", /\b(?:social security|ssn)\b/i],
+  ["pin", /\b(?:pin|passcode|password|security code|access code)\b/i],
+  ["member_id", /\b(?:member|subscriber|policy) (?:id|number)\b/i],
+  ["zip_code", /\b(?:zip|postal) code\b|\bzip\b/i],
+  ["phone_number", /\b(?:phone|telephone|mobile|cell) number\b/i],
+  ["account_number", /\baccount\b/i],
+];
+
+/** The kind of value a data-entry prompt asks for, if it is one the vault can answer. */
+export function classifyInputPrompt(text: string): CredentialType | null {
+  return PROMPT_TYPES.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Picks the credential to enter at a data-entry prompt. A credential whose name
+ * the prompt mentions wins; otherwise the first one of the recognized type.
+ */
+export function selectCredential(
+  credentials: VaultCredential[],
+  text: string
+): VaultCredential | null {
+  const named = credentials.find(
+    (c) => c.name.trim() && new RegExp(`\\b${escapeRegExp(c.name.trim())}\\b`, "i").test(text)
+  );
+  if (named) return named;
+
+  const type = classifyInputPrompt(text);
+  if (!type) return null;
+  return credentials.find((c) => c.type === type) ?? null;
+}
+
+/** "12345678" → "••••••78", for showing which value is stored without revealing it. */
+export function maskValue(value: string): string {
+  return value.length > 4 ? "•".repeat(value.length - 2) + value.slice(-2) : "•".repeat(value.length);
+}
+
+// Shorter values are left alone; masking them would blank out unrelated digits
+const MIN_MASKED_LENGTH = 3;
+
+/** Replaces every stored credential value in a log message with the credential's name. */
+export function maskCredentials(message: string, credentials: VaultCredential[]): string {
+  return [...credentials]
+    .filter((c) => c.value.length >= MIN_MASKED_LENGTH)
+    .sort((a, b) => b.value.length - a.value.length)
+    .reduce((masked, c) => masked.split(c.value).join(`[${c.name}]`), message);
+}
+
+// --- Vault References (test steps that enter a credential) --- //
+
+export function vaultReference(name: string): string {
+  return `{{vault:${name}}}`;
+}
+
+/** Substitutes "{{vault:Name}}" references in a step value; throws for unknown names. */
+export function resolveVaultReferences(value: string, credentials: VaultCredential[]): string {
+  return value.replace(/\{\{vault:([^}]+)\}\}/g, (_, name: string) => {
+    const credential = credentials.find((c) => c.name === name);
+    if (!credential) throw new Error(`Input vault credential "${name}" does not exist`);
+    return credential.value;
+  });
+}
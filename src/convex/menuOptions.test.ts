@@ -0,0 +1,178 @@
+import { describe, expect, test } from "vitest";
+import { extractMenuOptions, MenuOption, normalizeKeys, splitNavigationOptions } from "./menuOptions";
+
+// Prompts as transcribed from real IVRs, and the options each should yield in order
+const CORPUS: { name: string; prompt: string; options: MenuOption[] }[] = [
+  {
+    name: "press key for label",
+    prompt: "Press 1 for billing. Press 2 for technical support.",
+    options: [
+      { kind: "menu", label: "billing", dtmf: "1" },
+      { kind: "menu", label: "technical support", dtmf: "2" },
+    ],
+  },
+  {
+    name: "label before key",
+    prompt: "For billing, press 1. If you're calling about an order, press 2.",
+    options: [
+      { kind: "menu", label: "billing", dtmf: "1" },
+      { kind: "menu", label: "an order", dtmf: "2" },
+    ],
+  },
+  {
+    name: "key list sharing one verb",
+    prompt: "Press 1 for sales, 2 for support, or 3 for billing.",
+    options: [
+      { kind: "menu", label: "sales", dtmf: "1" },
+      { kind: "menu", label: "support", dtmf: "2" },
+      { kind: "menu", label: "billing", dtmf: "3" },
+    ],
+  },
+  {
+    name: "key list joined by or",
+    prompt: "Press 1 for new claims or 2 for existing claims.",
+    options: [
+      { kind: "menu", label: "new claims", dtmf: "1" },
+      { kind: "menu", label: "existing claims", dtmf: "2" },
+    ],
+  },
+  {
+    name: "spoken numbers",
+    prompt: "Press two for pharmacy.",
+    options: [{ kind: "menu", label: "pharmacy", dtmf: "2" }],
+  },
+  {
+    name: "star",
+    prompt: "To hear these options again, press star.",
+    options: [{ kind: "repeat", label: "hear these options again", dtmf: "*" }],
+  },
+  {
+    name: "pound",
+    prompt: "To return to the main menu, press the pound key.",
+    options: [{ kind: "main_menu", label: "return to the main menu", dtmf: "#" }],
+  },
+  {
+    name: "navigation and operator keys",
+    prompt: "For the previous menu, press 9. To speak with a representative, press 0.",
+    options: [
+      { kind: "back", label: "previous menu", dtmf: "9" },
+      { kind: "operator", label: "speak with a representative", dtmf: "0" },
+    ],
+  },
+  {
+    name: "enter with length and terminator",
+    prompt: "Please enter your 10-digit account number followed by the pound sign.",
+    options: [{ kind: "entry", label: "account number", entryLength: 10, terminator: "#" }],
+  },
+  {
+    name: "enter without length",
+    prompt: "Enter your zip code.",
+    options: [{ kind: "entry", label: "zip code", entryLength: undefined, terminator: undefined }],
+  },
+  {
+    name: "spanish",
+    prompt: "Para español, oprima dos.",
+    options: [{ kind: "menu", label: "español", dtmf: "2" }],
+  },
+  {
+    name: "spanish key list",
+    prompt: "Marque 1 para ventas, 2 para soporte o 3 para facturación.",
+    options: [
+      { kind: "menu", label: "ventas", dtmf: "1" },
+      { kind: "menu", label: "soporte", dtmf: "2" },
+      { kind: "menu", label: "facturación", dtmf: "3" },
+    ],
+  },
+  {
+    name: "say or press",
+    prompt: "Say or press 3 to check your balance. For payments, say or press four.",
+    options: [
+      { kind: "menu", label: "check your balance", dtmf: "3" },
+      { kind: "menu", label: "payments", dtmf: "4" },
+    ],
+  },
+  {
+    name: "label and key in separate sentences",
+    prompt: "For billing and payments. Press 1. For everything else. Press 2.",
+    options: [
+      { kind: "menu", label: "billing and payments", dtmf: "1" },
+      { kind: "menu", label: "everything else", dtmf: "2" },
+    ],
+  },
+  {
+    name: "unpunctuated label before key",
+    prompt: "for billing press 1 for sales press 2 to speak with a representative press 0",
+    options: [
+      { kind: "menu", label: "billing", dtmf: "1" },
+      { kind: "menu", label: "sales", dtmf: "2" },
+      { kind: "operator", label: "speak with a representative", dtmf: "0" },
+    ],
+  },
+  {
+    name: "unpunctuated key before label",
+    prompt: "press 1 for billing press 2 for sales",
+    options: [
+      { kind: "menu", label: "billing", dtmf: "1" },
+      { kind: "menu", label: "sales", dtmf: "2" },
+    ],
+  },
+  {
+    name: "bare key without a label sentence",
+    prompt: "Thank you for calling. Press 1.",
+    options: [],
+  },
+  {
+    name: "speech only",
+    prompt: "You can say billing, sales, or technical support.",
+    options: [
+      { kind: "speech", label: "billing", speech: "billing" },
+      { kind: "speech", label: "sales", speech: "sales" },
+      { kind: "speech", label: "technical support", speech: "technical support" },
+    ],
+  },
+  {
+    name: "speech only navigation",
+    prompt: "At any time, say main menu.",
+    options: [{ kind: "main_menu", label: "main menu", speech: "main menu" }],
+  },
+  {
+    name: "no options",
+    prompt: "Our offices are open Monday to Friday, 9 to 5.",
+    options: [],
+  },
+];
+
+describe("extractMenuOptions", () => {
+  test.each(CORPUS)("$name", ({ prompt, options }) => {
+    expect(extractMenuOptions(prompt)).toEqual(options);
+  });
+
+  test("keeps the first option per key", () => {
+    expect(extractMenuOptions("Press 1 for billing. For billing, press 1. Press 1 for sales.")).toEqual([
+      { kind: "menu", label: "billing", dtmf: "1" },
+    ]);
+  });
+});
+
+describe("normalizeKeys", () => {
+  test.each([
+    ["press the star key", "press *"],
+    ["press the pound sign", "press #"],
+    ["press hash", "press #"],
+    ["oprima el número cinco", "oprima 5"],
+  ])("%s", (text, expected) => {
+    expect(normalizeKeys(text)).toBe(expected);
+  });
+});
+
+describe("splitNavigationOptions", () => {
+  test("separates navigation keys from branches", () => {
+    const options = extractMenuOptions(
+      "Press 1 for billing. For the main menu, press star. To go back, press 9. For an operator, press 0."
+    );
+    expect(splitNavigationOptions(options)).toEqual({
+      navigation: { mainMenu: "*", previousMenu: "9" },
+      options: [{ kind: "menu", label: "billing", dtmf: "1" }],
+    });
+  });
+});
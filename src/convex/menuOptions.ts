@@ -0,0 +1,255 @@
+// --- Menu Option Extraction --- //
+
+export type OptionKind =
+  | "menu" // explorable branch ("press 1 for billing")
+  | "entry" // data entry ("enter your 10-digit account number followed by #")
+  | "speech" // speech-only choice ("say billing")
+  | "repeat"
+  | "back"
+  | "main_menu"
+  | "operator";
+
+export type MenuOption = {
+  kind: OptionKind;
+  label: string;
+  dtmf?: string; // Key(s) to press: digits, "*" or "#"
+  speech?: string; // Phrase to say, for speech options
+  entryLength?: number; // Expected digit count, for entry options
+  terminator?: string; // Key that ends the entry, for entry options
+};
+
+/**
+ * A rule matches within one sentence of the (key-normalized) prompt. Rules run
+ * in order and the text each match consumes is masked from later rules, so more
+ * specific phrasings should come first.
+ */
+export type OptionRule = {
+  name: string;
+  pattern: RegExp; // must be global
+  build: (match: RegExpMatchArray) => MenuOption[];
+};
+
+const KEY = String.raw`(\d+|\*|#)`;
+const PRESS = String.raw`(?:press|dial|push|select|oprima|marque|pulse|presione)`;
+const LEAD_IN = String.raw`(?:for|to|para|if you(?:'d| would) like to|if you want to|if you(?:'re| are) calling (?:about|for|to))`;
+
+// One "1 for billing" item of a key list, and what joins it to the next: ", ", " or ", ", or "
+const LIST_ITEM = String.raw`(?:\d+|\*|#)\s+(?:for|to|para)\s+`;
+const LIST_JOIN = String.raw`(?:,\s*(?:(?:or|and|o|y)\s+)?|\s+(?:or|and|o|y)\s+)`;
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: "0", one: "1", two: "2", three: "3", four: "4",
+  five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+  cero: "0", uno: "1", dos: "2", tres: "3", cuatro: "4",
+  cinco: "5", seis: "6", siete: "7", ocho: "8", nueve: "9",
+};
+
+/** Rewrites spoken keys to symbols: "star key" → "*", "pound sign" → "#", "press two" → "press 2". */
+export function normalizeKeys(text: string): string {
+  const words = Object.keys(NUMBER_WORDS).join("|");
+  return text
+    .replace(/\b(?:the\s+)?(?:star|asterisk)(?:\s+(?:key|sign|button))?\b/gi, "*")
+    .replace(/\b(?:the\s+)?(?:pound|hash)(?:\s+(?:key|sign|button))?\b/gi, "#")
+    .replace(
+      new RegExp(String.raw`\b(${PRESS}|say or press|press or say)\s+(?:the\s+|el\s+)?(?:number\s+|n[uú]mero\s+)?(${words})\b`, "gi"),
+      (_, verb: string, word: string) => `${verb} ${NUMBER_WORDS[word.toLowerCase()]}`
+    );
+}
+
+// Unpunctuated speech-to-text runs several options into one sentence; these find the boundaries between them
+const ANY_KEY = String.raw`(?:\d+|\*|#)`;
+const LABEL_FIRST_RUN = new RegExp(String.raw`^${LEAD_IN}\s+.+?\s+${PRESS}\s+${ANY_KEY}\s+${LEAD_IN}\s`, "i");
+const KEY_FIRST_RUN = new RegExp(
+  String.raw`^(?:please\s+)?${PRESS}\s+${ANY_KEY}\s+(?:for|to|para)\s.+?\s${PRESS}\s+${ANY_KEY}\s+(?:for|to|para)\s`,
+  "i"
+);
+
+/** Splits "for billing press 1 for sales press 2" or "press 1 for billing press 2 for sales" into one clause per option. */
+function splitRunOnOptions(sentence: string): string[] {
+  if (LABEL_FIRST_RUN.test(sentence)) {
+    return sentence.split(new RegExp(String.raw`(?<=\b${PRESS}\s+${ANY_KEY})\s+(?=${LEAD_IN}\s)`, "i"));
+  }
+  if (KEY_FIRST_RUN.test(sentence)) {
+    return sentence.split(new RegExp(String.raw`\s+(?=${PRESS}\s+${ANY_KEY}\s+(?:for|to|para)\s)`, "i"));
+  }
+  return [sentence];
+}
+
+export function classifyOptionLabel(label: string): OptionKind {
+  if (/\b(?:main menu|start over|beginning)\b/i.test(label)) return "main_menu";
+  if (/\b(?:previous menu|go back|back to the previous|last menu)\b/i.test(label)) return "back";
+  if (/\b(?:repeat|hear (?:these|this|the|those) (?:options|menu|choices) again)\b/i.test(label)) {
+    return "repeat";
+  }
+  if (/\b(?:operator|representative|live (?:agent|person)|speak (?:to|with) (?:a |an )?(?:person|someone|associate))\b/i.test(label)) {
+    return "operator";
+  }
+  return "menu";
+}
+
+function cleanLabel(label: string): string {
+  return label.trim().replace(/^(?:the|your)\s+/i, "").replace(/\s+/g, " ");
+}
+
+function keyOption(dtmf: string, label: string): MenuOption {
+  const cleaned = cleanLabel(label);
+  return { kind: classifyOptionLabel(cleaned), label: cleaned, dtmf };
+}
+
+export const DEFAULT_OPTION_RULES: OptionRule[] = [
+  {
+    // "Press 1 for billing", "Say or press 3 to check your balance", "Oprima 2 para español",
+    // and lists sharing one verb: "Press 1 for sales, 2 for support, or 3 for billing"
+    name: "press-key-for",
+    pattern: new RegExp(
+      String.raw`\b(?:say\s+or\s+)?${PRESS}(?:\s+or\s+say)?\s+(${LIST_ITEM}[^,;]+?(?:${LIST_JOIN}${LIST_ITEM}[^,;]+?)*)(?=[,;]|$)`,
+      "gi"
+    ),
+    build: (m) =>
+      [...m[1].matchAll(new RegExp(String.raw`${KEY}\s+(?:for|to|para)\s+(.+?)(?=${LIST_JOIN}${LIST_ITEM}|$)`, "gi"))].map(
+        (item) => keyOption(item[1], item[2])
+      ),
+  },
+  {
+    // "For billing, press 1", "If you're calling about an order, press star", "For Spanish, oprima 2"
+    name: "for-label-press-key",
+    pattern: new RegExp(
+      String.raw`\b${LEAD_IN}\s+([^,;]+?),?\s+(?:please\s+)?(?:${PRESS}|say\s+or\s+press|press\s+or\s+say)\s+${KEY}(?!\w)`,
+      "gi"
+    ),
+    build: (m) => [keyOption(m[2], m[1])],
+  },
+  {
+    // "Enter your 10-digit account number followed by #"
+    name: "data-entry",
+    pattern: new RegExp(
+      String.raw`\b(?:please\s+)?(?:say\s+or\s+)?(?:enter|key in|input|type)\s+(?:in\s+)?(?:your|the)\s+(?:(\d+)[-\s]digit\s+)?([^,;]+?)(?:,?\s+followed by\s+(#|\*))?\s*(?=[,;]|$)`,
+      "gi"
+    ),
+    build: (m) => [
+      {
+        kind: "entry",
+        label: cleanLabel(m[2]),
+        entryLength: m[1] ? Number(m[1]) : undefined,
+        terminator: m[3],
+      },
+    ],
+  },
+  {
+    // "Say billing", "You can say billing, sales, or technical support"
+    name: "speech-only",
+    pattern: /\bsay\s+(?!or\b)(.+)$/gi,
+    build: (m) =>
+      m[1]
+        .split(/,|\bor\b/i)
+        .map((item) =>
+          item
+            .split(/\s+(?:for|to|at|now|anytime)\b/i)[0]
+            .replace(/["“”']/g, "")
+            .trim()
+        )
+        .filter((phrase) => phrase.length > 0 && phrase.split(/\s+/).length <= 3 && !/\d/.test(phrase))
+        .map((phrase) => {
+          const kind = classifyOptionLabel(phrase);
+          return { kind: kind === "menu" ? "speech" : kind, label: phrase, speech: phrase };
+        }),
+  },
+];
+
+/**
+ * Extracts the options a prompt advertises, in the order they were spoken.
+ *
+ * Besides the per-sentence rules, a bare "Press 1." sentence is paired with a
+ * preceding "For billing and payments." sentence that had no key of its own.
+ */
+export function extractMenuOptions(
+  text: string,
+  rules: OptionRule[] = DEFAULT_OPTION_RULES
+): MenuOption[] {
+  const sentences = normalizeKeys(text)
+    .split(/(?<=[.;!?])\s+/)
+    .map((s) => s.trim().replace(/[.!?]+$/, ""))
+    .filter((s) => s.length > 0)
+    .flatMap(splitRunOnOptions);
+
+  const found: { position: number; option: MenuOption }[] = [];
+  const residues: string[] = [];
+
+  sentences.forEach((sentence, index) => {
+    let residue = sentence;
+    for (const rule of rules) {
+      for (const match of residue.matchAll(rule.pattern)) {
+        for (const option of rule.build(match)) {
+          found.push({ position: index * 10000 + (match.index ?? 0), option });
+        }
+      }
+      // Mask consumed text so later rules cannot re-pair its keys or labels
+      residue = residue.replace(rule.pattern, (m) => " ".repeat(m.length));
+    }
+    residues.push(residue.trim());
+  });
+
+  const bareKey = new RegExp(String.raw`^(?:please\s+)?${PRESS}\s+${KEY}(?:\s+now)?$`, "i");
+  const labelOnly = new RegExp(String.raw`^${LEAD_IN}\s+(.+)$`, "i");
+  residues.forEach((residue, index) => {
+    const key = residue.match(bareKey);
+    const previous = index > 0 && residues[index - 1] === sentences[index - 1].trim()
+      ? sentences[index - 1].match(labelOnly)
+      : null;
+    if (key && previous) {
+      found.push({ position: index * 10000, option: keyOption(key[1], previous[1]) });
+    }
+  });
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.position - b.position)
+    .map((f) => f.option)
+    .filter((option) => {
+      const id = option.dtmf ?? `${option.kind}:${option.speech ?? option.label}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+}
+
+const OPEN_ENDED_PATTERNS = [
+  /\b(?:tell|describe to) me\b/i,
+  /\bin (?:a few|your own) words\b/i,
+  /\b(?:briefly )?(?:describe|explain)\b.*\b(?:reason|why|issue|problem|question)\b/i,
+  /\bhow (?:can|may) (?:i|we) (?:help|assist)\b/i,
+  /\bwhat (?:can|may) (?:i|we) (?:help|assist) you with\b/i,
+  /\bwhy (?:you(?:'re| are)|are you) calling\b/i,
+];
+
+/** True for natural-language prompts that expect the caller to speak freely. */
+export function isOpenEndedPrompt(text: string): boolean {
+  return OPEN_ENDED_PATTERNS.some((p) => p.test(text));
+}
+
+// --- Navigation Keys ("main menu" / "previous menu") --- //
+
+export type NavigationKeys = {
+  mainMenu?: string;
+  previousMenu?: string;
+};
+
+/**
+ * Splits extracted options into the navigation keys the menu advertised and
+ * the key-press branches worth exploring. Repeat, operator, entry and
+ * speech-only options are neither.
+ */
+export function splitNavigationOptions(options: MenuOption[]): {
+  navigation: NavigationKeys;
+  options: (MenuOption & { dtmf: string })[];
+} {
+  const navigation: NavigationKeys = {};
+  const branches: (MenuOption & { dtmf: string })[] = [];
+  for (const option of options) {
+    if (option.dtmf === undefined) continue;
+    if (option.kind === "main_menu") navigation.mainMenu ??= option.dtmf;
+    else if (option.kind === "back") navigation.previousMenu ??= option.dtmf;
+    else if (option.kind === "menu") branches.push({ ...option, dtmf: option.dtmf });
+  }
+  return { navigation, options: branches };
+}
@@ -0,0 +1,64 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import { STALE_RUN_MS } from "./execution";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+// Scheduled test calls and alert evaluations stay queued
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+test("dispatchDue fails a stale previous run and starts the next one", async () => {
+  const t = convexTest(schema, modules);
+  const now = Date.now();
+  const { scheduleId, staleRunId } = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+    });
+    await ctx.db.insert("test_cases", { projectId, title: "Billing", steps: [], status: "approved", tags: [] });
+    const suiteId = await ctx.db.insert("test_suites", { projectId, name: "Smoke" });
+    const staleRunId = await ctx.db.insert("test_runs", {
+      projectId,
+      campaignId: suiteId,
+      trigger: "schedule",
+      status: "running",
+      startTime: now - STALE_RUN_MS - 60_000,
+      totalTests: 1,
+      passed: 0,
+      failed: 0,
+    });
+    const scheduleId = await ctx.db.insert("monitor_schedules", {
+      projectId,
+      suiteId,
+      enabled: true,
+      kind: "interval",
+      intervalMinutes: 60,
+      timezone: "UTC",
+      nextRunAt: now,
+      lastRunId: staleRunId,
+    });
+    return { scheduleId, staleRunId };
+  });
+
+  await t.mutation(internal.monitoring.dispatchDue, {});
+
+  const stale = await t.run((ctx) => ctx.db.get(staleRunId));
+  expect(stale?.status).toBe("failed");
+  const schedule = await t.run((ctx) => ctx.db.get(scheduleId));
+  expect(schedule?.lastRunId).not.toBe(staleRunId);
+  expect(schedule?.nextRunAt).toBeGreaterThan(now);
+  const next = await t.run((ctx) => ctx.db.get(schedule!.lastRunId!));
+  expect(next).toMatchObject({ status: "running", trigger: "schedule", scheduleId });
+});
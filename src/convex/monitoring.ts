@@ -0,0 +1,136 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { getAccessibleProject, requireProjectDoc } from "./access";
+import { failStaleRun, isStaleRun, startSuiteRun } from "./execution";
+import { isWithinActiveHours, nextRunTime, validateScheduleTiming } from "./schedule";
+
+const timingFields = {
+  kind: v.union(v.literal("interval"), v.literal("cron")),
+  intervalMinutes: v.optional(v.number()),
+  cronExpression: v.optional(v.string()),
+  timezone: v.string(),
+  activeHours: v.optional(v.object({ start: v.string(), end: v.string() })),
+};
+
+export const create = mutation({
+  args: { suiteId: v.id("test_suites"), ...timingFields },
+  handler: async (ctx, args) => {
+    const suite = await requireProjectDoc(ctx, args.suiteId, "Suite");
+    validateScheduleTiming(args);
+
+    return await ctx.db.insert("monitor_schedules", {
+      ...args,
+      projectId: suite.projectId,
+      enabled: true,
+      nextRunAt: nextRunTime(args, Date.now()),
+    });
+  },
+});
+
+export const update = mutation({
+  args: { id: v.id("monitor_schedules"), ...timingFields },
+  handler: async (ctx, args) => {
+    const { id, ...timing } = args;
+    const schedule = await requireProjectDoc(ctx, id, "Schedule");
+    validateScheduleTiming(timing);
+
+    // replace() so switching kinds drops the other kind's fields
+    await ctx.db.replace(id, {
+      projectId: schedule.projectId,
+      suiteId: schedule.suiteId,
+      enabled: schedule.enabled,
+      lastRunAt: schedule.lastRunAt,
+      lastRunId: schedule.lastRunId,
+      ...timing,
+      nextRunAt: nextRunTime(timing, Date.now()),
+    });
+  },
+});
+
+export const setEnabled = mutation({
+  args: { id: v.id("monitor_schedules"), enabled: v.boolean() },
+  handler: async (ctx, args) => {
+    const schedule = await requireProjectDoc(ctx, args.id, "Schedule");
+
+    // Resuming starts from now rather than catching up on missed runs
+    await ctx.db.patch(args.id, {
+      enabled: args.enabled,
+      nextRunAt: args.enabled ? nextRunTime(schedule, Date.now()) : schedule.nextRunAt,
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { id: v.id("monitor_schedules") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Schedule");
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Called by the dispatcher cron every minute. Starts a suite run for each
+ * enabled schedule that has come due, unless it is outside its active hours
+ * or its previous run is still going (one with no result for STALE_RUN_MS
+ * counts as failed); either way the schedule moves on to its next due time, so
+ * missed runs are skipped rather than queued.
+ */
+export const dispatchDue = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due = await ctx.db
+      .query("monitor_schedules")
+      .withIndex("by_enabled_and_next_run", (q) => q.eq("enabled", true).lte("nextRunAt", now))
+      .collect();
+
+    for (const schedule of due) {
+      const nextRunAt = nextRunTime(schedule, now);
+
+      const suite = await ctx.db.get(schedule.suiteId);
+      if (!suite) {
+        await ctx.db.patch(schedule._id, { enabled: false });
+        continue;
+      }
+
+      // A previous run that stopped reporting is failed (and alerted on) instead of blocking the schedule
+      const previous = schedule.lastRunId ? await ctx.db.get(schedule.lastRunId) : null;
+      const stale = previous !== null && isStaleRun(previous, now);
+      if (stale) await failStaleRun(ctx, previous);
+      if (!isWithinActiveHours(schedule, now) || (previous?.status === "running" && !stale)) {
+        await ctx.db.patch(schedule._id, { nextRunAt });
+        continue;
+      }
+
+      try {
+        const run = await startSuiteRun(ctx, suite, { trigger: "schedule", scheduleId: schedule._id });
+        await ctx.db.patch(schedule._id, { nextRunAt, lastRunAt: now, lastRunId: run.runId });
+      } catch (error) {
+        // An empty suite is retried at the next due time
+        console.error(`Monitoring schedule ${schedule._id}:`, error instanceof Error ? error.message : error);
+        await ctx.db.patch(schedule._id, { nextRunAt });
+      }
+    }
+  },
+});
+
+// --- Queries --- //
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const schedules = await ctx.db
+      .query("monitor_schedules")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return await Promise.all(
+      schedules.map(async (schedule) => ({
+        ...schedule,
+        suiteName: (await ctx.db.get(schedule.suiteId))?.name,
+        lastRun: schedule.lastRunId ? await ctx.db.get(schedule.lastRunId) : null,
+      }))
+    );
+  },
+});
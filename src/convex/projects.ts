@@ -1,40 +1,45 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query } from "./_generated/server";
 import { paginationOptsValidator } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { getAccessibleProject, getWorkspaceRole, requireProject, requireWorkspaceRole } from "./access";
+import { ROLES } from "./schema";
 
 export const create = mutation({
   args: {
+    workspaceId: v.id("workspaces"),
     name: v.string(),
     description: v.optional(v.string()),
     type: v.union(v.literal("voice"), v.literal("chat"), v.literal("omni")),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
+    const { userId } = await requireWorkspaceRole(ctx, args.workspaceId, ROLES.MEMBER);
 
     return await ctx.db.insert("projects", {
       name: args.name,
       description: args.description,
       type: args.type,
       status: "active",
-      createdBy: identity.subject,
+      createdBy: userId,
+      workspaceId: args.workspaceId,
     });
   },
 });
 
-export const deleteProject = mutation({
-  args: { id: v.id("projects") },
+export const setUtterances = mutation({
+  args: { id: v.id("projects"), utterances: v.array(v.string()) },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) throw new Error("Unauthorized");
+    await requireProject(ctx, args.id);
 
-    const project = await ctx.db.get(args.id);
-    if (!project) throw new Error("Project not found");
+    const utterances = [...new Set(args.utterances.map((u) => u.trim()).filter(Boolean))];
+    await ctx.db.patch(args.id, { utterances });
+  },
+});
 
-    // Allow deletion for any authenticated user for now to fix the issue
-    // if (project.createdBy !== identity.subject) {
-    //   throw new Error("Unauthorized to delete this project");
-    // }
+export const deleteProject = mutation({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.id, ROLES.ADMIN);
 
     // Cascade delete related data
     const nodes = await ctx.db
@@ -43,6 +48,12 @@ export const deleteProject = mutation({
       .collect();
     for (const node of nodes) await ctx.db.delete(node._id);
 
+    const credentials = await ctx.db
+      .query("test_credentials")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const credential of credentials) await ctx.db.delete(credential._id);
+
     const jobs = await ctx.db
       .query("discovery_jobs")
       .withIndex("by_project", (q) => q.eq("projectId", args.id))
@@ -62,6 +73,36 @@ export const deleteProject = mutation({
       .collect();
     for (const tc of testCases) await ctx.db.delete(tc._id);
 
+    const suites = await ctx.db
+      .query("test_suites")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const suite of suites) await ctx.db.delete(suite._id);
+
+    const schedules = await ctx.db
+      .query("monitor_schedules")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const schedule of schedules) await ctx.db.delete(schedule._id);
+
+    const alertRules = await ctx.db
+      .query("alert_rules")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const rule of alertRules) await ctx.db.delete(rule._id);
+
+    const deliveries = await ctx.db
+      .query("alert_deliveries")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const delivery of deliveries) await ctx.db.delete(delivery._id);
+
+    const apiKeys = await ctx.db
+      .query("api_keys")
+      .withIndex("by_project", (q) => q.eq("projectId", args.id))
+      .collect();
+    for (const key of apiKeys) await ctx.db.delete(key._id);
+
     const testRuns = await ctx.db
       .query("test_runs")
       .withIndex("by_project", (q) => q.eq("projectId", args.id))
@@ -80,19 +121,31 @@ export const deleteProject = mutation({
 });
 
 export const list = query({
-  args: { paginationOpts: paginationOptsValidator },
+  args: { workspaceId: v.id("workspaces"), paginationOpts: paginationOptsValidator },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return { page: [], isDone: true, continueCursor: "" };
+    const userId = await getAuthUserId(ctx);
+    if (userId === null || !(await getWorkspaceRole(ctx, args.workspaceId, userId))) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
 
     return await ctx.db
       .query("projects")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
       .order("desc")
       .paginate(args.paginationOpts);
   },
 });
 
 export const get = query({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    return await getAccessibleProject(ctx, args.id);
+  },
+});
+
+// --- Used by discoveryActions.ts --- //
+
+export const getInternal = internalQuery({
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
     return await ctx.db.get(args.id);
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "vitest";
+import { fingerprintPrompt, matchPrompt } from "./prompts";
+
+const prompt = "Please enter your account number";
+const known = [{ content: prompt, fingerprint: fingerprintPrompt(prompt) }];
+
+describe("matchPrompt", () => {
+  test("tolerates a misheard word in a short prompt at a lower threshold", () => {
+    expect(matchPrompt("Please enter your count number", known, 0.8, 5)).toMatchObject({ score: 0.8 });
+  });
+
+  test("matches short prompts only exactly by default", () => {
+    expect(matchPrompt("Please enter your count number", known)).toBeNull();
+    expect(matchPrompt("Please enter your count number", known, 0.5)).toBeNull();
+  });
+
+  test("matches prompts shorter than minTokens only exactly", () => {
+    expect(matchPrompt("Please enter your count number", known, 0.8, 6)).toBeNull();
+    expect(matchPrompt("Please enter your account number.", known, 0.8, 6)).toMatchObject({ score: 1 });
+  });
+});
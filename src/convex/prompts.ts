@@ -0,0 +1,152 @@
+// --- Matching & Fingerprinting --- //
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "").trim();
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: "0", oh: "0", one: "1", two: "2", three: "3", four: "4",
+  five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+const FILLER_WORDS = new Set(["uh", "um", "er", "ah", "hmm"]);
+
+/** Canonical tokens: lowercase words, spelled-out digits as digits, ASR fillers dropped. */
+export function tokenizePrompt(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0 && !FILLER_WORDS.has(t))
+    .map((t) => NUMBER_WORDS[t] ?? t);
+}
+
+function hashString(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    hash = (hash << 5) - hash + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16);
+}
+
+export type FingerprintVersion = "v1" | "v2";
+export const FINGERPRINT_VERSION: FingerprintVersion = "v2";
+
+/**
+ * Versioned prompt hash.
+ *  - v1: all non-alphanumerics stripped (legacy)
+ *  - v2: canonical tokens (see tokenizePrompt), so "press one" and "press 1" agree
+ */
+export function fingerprintPrompt(
+  text: string,
+  version: FingerprintVersion = FINGERPRINT_VERSION
+): string {
+  if (version === "v1") {
+    const normalized = normalizeText(text);
+    if (normalized.length === 0) return "empty";
+    return `v1:${hashString(normalized)}`;
+  }
+  const tokens = tokenizePrompt(text);
+  if (tokens.length === 0) return "empty";
+  return `v2:${hashString(tokens.join(" "))}`;
+}
+
+/** Compares a stored fingerprint of any version against a transcript. */
+export function fingerprintMatches(fingerprint: string, text: string): boolean {
+  const version = fingerprint.split(":")[0];
+  if (version === "v1" || version === "v2") {
+    return fingerprintPrompt(text, version) === fingerprint;
+  }
+  return fingerprint === fingerprintPrompt(text);
+}
+
+// --- Fuzzy Prompt Similarity (loop detection) --- //
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+// Below this many tokens a single word is too large a share of the prompt to
+// tell ASR noise from a genuinely different prompt ("You selected billing" /
+// "You selected sales"), so only exact matches count. Crawl policies override
+// it with minFuzzyTokens.
+export const DEFAULT_MIN_FUZZY_TOKENS = 12;
+
+/** Token-level similarity in [0, 1]: 1 - word edit distance / longer length. */
+export function promptSimilarity(a: string, b: string): number {
+  const x = tokenizePrompt(a);
+  const y = tokenizePrompt(b);
+  if (x.length === 0 && y.length === 0) return 1;
+  if (x.length === 0 || y.length === 0) return 0;
+
+  let prev = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= y.length; j++) {
+      const cost = x[i - 1] === y[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return 1 - prev[y.length] / Math.max(x.length, y.length);
+}
+
+/** The candidate whose (version-aware) fingerprint `text` has, scored 1. */
+export function matchFingerprint<T extends { fingerprint?: string }>(
+  text: string,
+  candidates: T[]
+): { candidate: T; score: number } | null {
+  const candidate = candidates.find((c) => c.fingerprint && fingerprintMatches(c.fingerprint, text));
+  return candidate ? { candidate, score: 1 } : null;
+}
+
+/**
+ * Finds the known prompt `text` is a reading of. Exact (version-aware)
+ * fingerprint matches score 1; otherwise the most similar candidate at or above
+ * `threshold` wins, among prompts of at least `minTokens` tokens.
+ */
+export function matchPrompt<T extends { fingerprint?: string; content: string }>(
+  text: string,
+  candidates: T[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+  minTokens: number = DEFAULT_MIN_FUZZY_TOKENS
+): { candidate: T; score: number } | null {
+  const exact = matchFingerprint(text, candidates);
+  if (exact) return exact;
+
+  if (tokenizePrompt(text).length < minTokens) return null;
+
+  let best: { candidate: T; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (tokenizePrompt(candidate.content).length < minTokens) continue;
+    const score = promptSimilarity(text, candidate.content);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+  return best;
+}
+
+// --- Prompt Outcome Classification --- //
+
+const INVALID_INPUT_PATTERNS = [
+  /\binvalid\b/i,
+  /\bnot a valid\b/i,
+  /\b(?:did not|didn'?t) understand\b/i,
+  /\bnot recogni[sz]ed\b/i,
+];
+
+const TIMEOUT_PATTERNS = [
+  /\b(?:did not|didn'?t) (?:receive|hear|get)\b/i,
+  /\bno (?:input|selection|response) (?:was )?(?:received|detected)\b/i,
+  /\bare you still there\b/i,
+];
+
+/**
+ * Classifies the prompt played after an input as an error outcome, if it is one.
+ * Silence (empty transcript) is treated as a timeout.
+ */
+export function classifyPromptOutcome(text: string): "invalid_input" | "timeout" | null {
+  if (normalizeText(text).length === 0) return "timeout";
+  if (TIMEOUT_PATTERNS.some((p) => p.test(text))) return "timeout";
+  if (INVALID_INPUT_PATTERNS.some((p) => p.test(text))) return "invalid_input";
+  return null;
+}
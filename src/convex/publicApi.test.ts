@@ -0,0 +1,88 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { hashApiKey } from "./apiKeys";
+import schema from "./schema";
+import { ROLES } from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const KEY = "cxn_test_key";
+
+// Started crawls and runs stay queued
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    await ctx.db.insert("api_keys", {
+      projectId,
+      name: "CI",
+      prefix: KEY.slice(0, 8),
+      hashedKey: await hashApiKey(KEY),
+      permissions: ["read", "run"],
+      createdBy: userId,
+    });
+    const suiteId = await ctx.db.insert("test_suites", { projectId, name: "Nightly", tags: ["nightly"] });
+    return { projectId, suiteId };
+  });
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await t.fetch(`/api/v1/projects/${ids.projectId}/${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${KEY}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+  return { t, ...ids, request };
+}
+
+describe("public API errors", () => {
+  test.each([
+    [{}, "Body must be JSON with an entryPoint"],
+    [{ entryPoint: " " }, "Body must be JSON with an entryPoint"],
+    [{ entryPoint: "+15550100", policy: { maxDepth: "3" } }, "Invalid crawl policy: maxDepth has the wrong type"],
+    [{ entryPoint: "+15550100", policy: { mode: "random" } }, "Invalid crawl policy: mode has the wrong type"],
+    [{ entryPoint: "+15550100", policy: { maxDepth: 2.5 } }, "Invalid crawl policy: maxDepth must be a whole number of at least 0"],
+  ])("rejects discovery body %j with 400", async (body, error) => {
+    const { t, request } = await setup();
+
+    expect(await request("POST", "discovery", body)).toEqual({ status: 400, body: { error } });
+    expect(await t.run((ctx) => ctx.db.query("discovery_jobs").collect())).toHaveLength(0);
+  });
+
+  test("starts discovery for a valid body", async () => {
+    const { request } = await setup();
+
+    const response = await request("POST", "discovery", { entryPoint: "+15550100", policy: { mode: "bfs", maxDepth: 3 } });
+    expect(response).toMatchObject({ status: 201, body: { status: "queued" } });
+  });
+
+  test("answers 404 for missing documents and 409 for an empty suite", async () => {
+    const { request, suiteId } = await setup();
+
+    expect(await request("GET", "runs/nope")).toEqual({ status: 404, body: { error: "Run not found" } });
+    expect(await request("POST", "suites/nope/runs")).toEqual({ status: 404, body: { error: "Suite not found" } });
+    expect(await request("POST", `suites/${suiteId}/runs`)).toEqual({
+      status: 409,
+      body: { error: 'Suite "Nightly" has no test cases to run' },
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { GenericValidator, v } from "convex/values";
+import { ActionCtx, httpAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { hashApiKey } from "./apiKeys";
+import { validateCrawlPolicy } from "./crawler";
+import { startSuiteRun } from "./execution";
+import { buildRunReport } from "./reports";
+import { isReportFormat, renderReport, REPORT_FORMATS, reportFileName, toJsonSummary } from "./runReport";
+import { CrawlPolicy, crawlPolicyValidator, type ApiKeyPermission } from "./schema";
+import { getSuiteMembers } from "./suites";
+
+// --- Public HTTP API (/api/v1/projects/{projectId}/…, Bearer project API key) --- //
+//
+//  POST /discovery                         run   start a discovery job: { entryPoint, inputType?, policy? }
+//  GET  /discovery/{jobId}                 read  job status, without artifacts
+//  GET  /discovery/{jobId}/artifacts/{name} read graph, report or testCases JSON
+//  GET  /test-cases                        read  test cases with their steps
+//  GET  /suites                            read  suites with their current members
+//  POST /suites/{suiteId}/runs             run   start a suite run
+//  GET  /runs/{runId}[?format=junit|html]  read  run summary with per-test steps, or a report download
+
+const ARTIFACTS = ["graph", "report", "testCases"] as const;
+
+// Ids in paths are untrusted strings; each lookup normalizes them and checks the project
+
+export const startDiscovery = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    entryPoint: v.string(),
+    inputType: v.optional(v.string()),
+    policy: v.optional(crawlPolicyValidator),
+  },
+  handler: async (ctx, args) => {
+    if (!args.entryPoint.trim()) throw new Error("entryPoint is required");
+    if (args.policy) validateCrawlPolicy(args.policy);
+
+    const jobId = await ctx.db.insert("discovery_jobs", {
+      projectId: args.projectId,
+      entryPoint: args.entryPoint,
+      inputType: args.inputType,
+      policy: args.policy,
+      status: "queued",
+      startTime: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.discoveryActions.runDiscovery, {
+      jobId,
+      projectId: args.projectId,
+      entryPoint: args.entryPoint,
+      inputType: args.inputType,
+    });
+    return jobId;
+  },
+});
+
+export const getJob = internalQuery({
+  args: { projectId: v.id("projects"), jobId: v.string() },
+  handler: async (ctx, args) => {
+    const jobId = ctx.db.normalizeId("discovery_jobs", args.jobId);
+    const job = jobId ? await ctx.db.get(jobId) : null;
+    return job?.projectId === args.projectId ? job : null;
+  },
+});
+
+export const listTestCases = internalQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("test_cases")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+  },
+});
+
+export const listSuites = internalQuery({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const suites = await ctx.db
+      .query("test_suites")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return await Promise.all(
+      suites.map(async (suite) => ({
+        id: suite._id,
+        name: suite.name,
+        description: suite.description,
+        testCaseIds: (await getSuiteMembers(ctx, suite)).map((t) => t._id),
+      }))
+    );
+  },
+});
+
+export const runSuite = internalMutation({
+  args: { projectId: v.id("projects"), suiteId: v.string() },
+  handler: async (ctx, args) => {
+    const suiteId = ctx.db.normalizeId("test_suites", args.suiteId);
+    const suite = suiteId ? await ctx.db.get(suiteId) : null;
+    if (!suite || suite.projectId !== args.projectId) return null;
+    if ((await getSuiteMembers(ctx, suite)).length === 0) {
+      return { error: `Suite "${suite.name}" has no test cases to run` };
+    }
+
+    return await startSuiteRun(ctx, suite, { trigger: "api" });
+  },
+});
+
+export const getRun = internalQuery({
+  args: { projectId: v.id("projects"), runId: v.string() },
+  handler: async (ctx, args) => {
+    const runId = ctx.db.normalizeId("test_runs", args.runId);
+    const run = runId ? await ctx.db.get(runId) : null;
+    if (!run || run.projectId !== args.projectId) return null;
+    return { report: (await buildRunReport(ctx, run._id))!, totalTests: run.totalTests ?? 1 };
+  },
+});
+
+// --- HTTP Handler --- //
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function apiError(status: number, message: string): Response {
+  return json({ error: message }, status);
+}
+
+/** Whether a JSON value fits a Convex validator, for the kinds crawl policies use. */
+function fitsValidator(value: unknown, validator: GenericValidator): boolean {
+  switch (validator.kind) {
+    case "string":
+      return typeof value === "string";
+    case "float64":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "literal":
+      return value === validator.value;
+    case "array":
+      return Array.isArray(value) && value.every((item) => fitsValidator(item, validator.element));
+    case "union":
+      return validator.members.some((member) => fitsValidator(value, member));
+    default:
+      return false;
+  }
+}
+
+/** Why a POST /discovery body would be rejected, or null if startDiscovery accepts it. */
+function discoveryBodyError(body: unknown): string | null {
+  if (typeof body !== "object" || body === null) return "Body must be JSON with an entryPoint";
+  const { entryPoint, inputType, policy } = body as Record<string, unknown>;
+  if (typeof entryPoint !== "string" || !entryPoint.trim()) return "Body must be JSON with an entryPoint";
+  if (inputType !== undefined && typeof inputType !== "string") return "inputType must be a string";
+  if (policy === undefined) return null;
+
+  if (typeof policy !== "object" || policy === null || Array.isArray(policy)) return "policy must be an object";
+  const fields: Record<string, GenericValidator> = crawlPolicyValidator.fields;
+  for (const [name, value] of Object.entries(policy)) {
+    if (!(name in fields)) return `Unknown crawl policy setting "${name}"`;
+    if (!fitsValidator(value, fields[name])) return `Invalid crawl policy: ${name} has the wrong type`;
+  }
+  try {
+    validateCrawlPolicy(policy as CrawlPolicy);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  return null;
+}
+
+/** The request's project API key, if it is valid, not revoked and grants `permission` on `projectId`. */
+async function authorize(
+  ctx: ActionCtx,
+  request: Request,
+  projectId: string,
+  permission: ApiKeyPermission
+): Promise<Doc<"api_keys"> | Response> {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return apiError(401, "Missing API key; send Authorization: Bearer <key>");
+
+  const key = await ctx.runQuery(internal.apiKeys.getByHash, { hashedKey: await hashApiKey(match[1]) });
+  if (!key) return apiError(401, "Invalid or revoked API key");
+  if (key.projectId !== projectId) return apiError(403, "API key does not belong to this project");
+  if (!key.permissions.includes(permission)) {
+    return apiError(403, `API key lacks the "${permission}" permission`);
+  }
+  return key;
+}
+
+export const handle = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const [resource, projectId, ...path] = url.pathname.replace(/^\/api\/v1\//, "").split("/").filter(Boolean);
+  if (resource !== "projects" || !projectId) return apiError(404, "Not found");
+
+  // "GET runs/abc" → "GET runs/:id"; odd segments are always ids or artifact names
+  const route = `${request.method} ${path.map((p, i) => (i % 2 === 1 ? ":id" : p)).join("/")}`;
+  const permissions: Record<string, ApiKeyPermission> = {
+    "POST discovery": "run",
+    "GET discovery/:id": "read",
+    "GET discovery/:id/artifacts/:id": "read",
+    "GET test-cases": "read",
+    "GET suites": "read",
+    "POST suites/:id/runs": "run",
+    "GET runs/:id": "read",
+  };
+  const permission = permissions[route];
+  if (!permission) return apiError(404, `No route for ${request.method} ${url.pathname}`);
+
+  const key = await authorize(ctx, request, projectId, permission);
+  if (key instanceof Response) return key;
+  await ctx.runMutation(internal.apiKeys.markUsed, { id: key._id });
+  const project = key.projectId;
+
+  try {
+    if (route === "POST discovery") {
+      const body = await request.json().catch(() => null);
+      const invalid = discoveryBodyError(body);
+      if (invalid) return apiError(400, invalid);
+      const jobId = await ctx.runMutation(internal.publicApi.startDiscovery, {
+        projectId: project,
+        entryPoint: body.entryPoint,
+        inputType: body.inputType,
+        policy: body.policy,
+      });
+      return json({ jobId, status: "queued" }, 201);
+    }
+
+    if (route.startsWith("GET discovery/")) {
+      const job = await ctx.runQuery(internal.publicApi.getJob, { projectId: project, jobId: path[1] });
+      if (!job) return apiError(404, "Discovery job not found");
+
+      if (path[2] === "artifacts") {
+        const name = path[3] as (typeof ARTIFACTS)[number];
+        if (!ARTIFACTS.includes(name)) return apiError(404, `Unknown artifact, expected one of ${ARTIFACTS.join(", ")}`);
+        if (!job.artifacts) return apiError(409, `Job is ${job.status}; artifacts are written when it completes`);
+        return new Response(job.artifacts[name], { headers: { "Content-Type": "application/json" } });
+      }
+
+      // The resume checkpoint is internal crawler state and stays out
+      return json({
+        jobId: job._id,
+        status: job.status,
+        entryPoint: job.entryPoint,
+        inputType: job.inputType,
+        platform: job.platform,
+        policy: job.policy,
+        waitingFor: job.waitingFor,
+        startTime: job.startTime,
+        endTime: job.endTime,
+        artifacts: job.artifacts ? ARTIFACTS : [],
+      });
+    }
+
+    if (route === "GET test-cases") {
+      return json(await ctx.runQuery(internal.publicApi.listTestCases, { projectId: project }));
+    }
+
+    if (route === "GET suites") {
+      return json(await ctx.runQuery(internal.publicApi.listSuites, { projectId: project }));
+    }
+
+    if (route === "POST suites/:id/runs") {
+      const run = await ctx.runMutation(internal.publicApi.runSuite, { projectId: project, suiteId: path[1] });
+      if (!run) return apiError(404, "Suite not found");
+      if ("error" in run) return apiError(409, run.error);
+      return json({ runId: run.runId, totalTests: run.testCaseIds.length, status: "running" }, 201);
+    }
+
+    // GET runs/:id
+    const found = await ctx.runQuery(internal.publicApi.getRun, { projectId: project, runId: path[1] });
+    if (!found) return apiError(404, "Run not found");
+    const format = url.searchParams.get("format");
+    if (format && format !== "json") {
+      if (!isReportFormat(format)) return apiError(400, `Unknown format "${format}", expected junit, html or json`);
+      return new Response(renderReport(found.report, format), {
+        headers: {
+          "Content-Type": REPORT_FORMATS[format].contentType,
+          "Content-Disposition": `attachment; filename="${reportFileName(found.report, format)}"`,
+        },
+      });
+    }
+    const summary = toJsonSummary(found.report);
+    return json({
+      ...summary,
+      totalTests: found.totalTests, // results so far are in tests; the run completes when all are in
+      tests: summary.tests.map((test, i) => ({ ...test, steps: found.report.tests[i].steps })),
+    });
+  } catch (error) {
+    // Bad requests and missing documents are answered above; anything thrown is a server-side failure
+    return apiError(500, error instanceof Error ? error.message : String(error));
+  }
+});
@@ -0,0 +1,78 @@
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getAccessibleDoc } from "./access";
+import { ReportStep, RunReport } from "./runReport";
+
+/**
+ * Use this function internally to collect a run, its results and their test
+ * cases into the shape runReport.ts renders. Returns null for unknown runs.
+ */
+export const buildRunReport = async (ctx: QueryCtx, runId: Id<"test_runs">): Promise<RunReport | null> => {
+  const run = await ctx.db.get(runId);
+  if (!run) return null;
+
+  const project = await ctx.db.get(run.projectId);
+  const suiteId = run.campaignId ? ctx.db.normalizeId("test_suites", run.campaignId) : null;
+  const suite = suiteId ? await ctx.db.get(suiteId) : null;
+  const results = await ctx.db
+    .query("test_results")
+    .withIndex("by_run", (q) => q.eq("runId", runId))
+    .collect();
+
+  const tests = await Promise.all(
+    results.map(async (result) => {
+      const testCase = await ctx.db.get(result.testCaseId);
+      let lastHeard: string | undefined;
+      const steps = (result.stepResults ?? []).map((stepResult): ReportStep => {
+        const step: ReportStep = {
+          stepIndex: stepResult.stepIndex,
+          action: stepResult.action,
+          input: stepResult.action === "listen" ? undefined : testCase?.steps[stepResult.stepIndex]?.value,
+          expected: stepResult.expected,
+          status: stepResult.status,
+          latencyMs: stepResult.latencyMs,
+        };
+        // Listen steps record their assertion reasons; the prompt they judged is the one heard before
+        if (stepResult.action === "listen") {
+          step.heard = lastHeard;
+          step.detail = stepResult.actual;
+        } else if (stepResult.status === "pass") {
+          step.heard = lastHeard = stepResult.actual;
+        } else {
+          step.detail = stepResult.actual;
+        }
+        return step;
+      });
+      return {
+        testCaseId: result.testCaseId,
+        title: testCase?.title ?? `Test Case ${result.testCaseId.slice(-4)}`,
+        status: result.status,
+        durationMs: result.duration,
+        recordingUrl: result.recordingUrl,
+        logs: result.logs,
+        steps,
+      };
+    })
+  );
+
+  return {
+    runId: run._id,
+    projectName: project?.name ?? "Deleted project",
+    suiteName: suite?.name,
+    trigger: run.trigger ?? "manual",
+    status: run.status,
+    summary: run.summary,
+    startTime: run.startTime,
+    endTime: run.endTime,
+    tests,
+  };
+};
+
+export const get = query({
+  args: { runId: v.id("test_runs") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleDoc(ctx, args.runId))) return null;
+    return await buildRunReport(ctx, args.runId);
+  },
+});
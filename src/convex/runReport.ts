@@ -0,0 +1,293 @@
+// --- Run Reports (JUnit XML, HTML and JSON exports of one test run) --- //
+
+export type ReportStep = {
+  stepIndex: number;
+  action: string;
+  input?: string; // Test case step value: number dialed, keys, phrase or seconds; vault references stay unresolved
+  expected?: string;
+  heard?: string; // Transcript the step was judged on; for listen steps, the prompt heard before it
+  detail?: string; // listen: assertion reasons, other steps: error message when they failed
+  status: string;
+  latencyMs?: number;
+};
+
+export type ReportTest = {
+  testCaseId: string;
+  title: string;
+  status: string;
+  durationMs: number;
+  recordingUrl?: string;
+  logs: string[];
+  steps: ReportStep[];
+};
+
+export type RunReport = {
+  runId: string;
+  projectName: string;
+  suiteName?: string;
+  trigger: string;
+  status: string;
+  summary?: string;
+  startTime: number;
+  endTime?: number;
+  tests: ReportTest[];
+};
+
+export type ReportFormat = "junit" | "html" | "json";
+
+export const REPORT_FORMATS: Record<ReportFormat, { extension: string; contentType: string }> = {
+  junit: { extension: "xml", contentType: "application/xml" },
+  html: { extension: "html", contentType: "text/html; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json" },
+};
+
+export function isReportFormat(format: string): format is ReportFormat {
+  return format in REPORT_FORMATS;
+}
+
+/** "Nightly smoke" → "run-nightly-smoke-1a2b.xml" */
+export function reportFileName(report: RunReport, format: ReportFormat): string {
+  const name = (report.suiteName ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `run-${name ? `${name}-` : ""}${report.runId.slice(-4)}.${REPORT_FORMATS[format].extension}`;
+}
+
+export function renderReport(report: RunReport, format: ReportFormat): string {
+  if (format === "junit") return toJUnitXml(report);
+  if (format === "html") return toHtmlReport(report);
+  return JSON.stringify(toJsonSummary(report), null, 2);
+}
+
+function totals(report: RunReport) {
+  const failed = report.tests.filter((t) => t.status !== "pass").length;
+  const total = report.tests.length;
+  return {
+    tests: total,
+    passed: total - failed,
+    failed,
+    passRate: total > 0 ? Math.round(((total - failed) / total) * 1000) / 10 : 0,
+    durationMs: (report.endTime ?? report.startTime) - report.startTime,
+  };
+}
+
+function describeFailure(step: ReportStep): string {
+  const detail = step.detail ?? (step.expected ? `expected "${step.expected}", heard "${step.heard ?? ""}"` : "failed");
+  return `Step ${step.stepIndex + 1} (${step.action}): ${detail}`;
+}
+
+export function toJsonSummary(report: RunReport) {
+  return {
+    runId: report.runId,
+    project: report.projectName,
+    suite: report.suiteName,
+    trigger: report.trigger,
+    status: report.status,
+    summary: report.summary,
+    startTime: new Date(report.startTime).toISOString(),
+    endTime: report.endTime !== undefined ? new Date(report.endTime).toISOString() : undefined,
+    totals: totals(report),
+    tests: report.tests.map((test) => ({
+      testCaseId: test.testCaseId,
+      title: test.title,
+      status: test.status,
+      durationMs: test.durationMs,
+      recordingUrl: test.recordingUrl,
+      failures: test.steps.filter((s) => s.status !== "pass").map(describeFailure),
+    })),
+  };
+}
+
+// --- JUnit XML --- //
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters other than tab and newlines are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+/**
+ * One <testsuite> per run and one <testcase> per test. A failed test gets a
+ * <failure> whose message is its first failing step and whose body lists all
+ * of them; logs go to <system-out> so CI shows them next to the failure.
+ */
+export function toJUnitXml(report: RunReport): string {
+  const { tests, failed, durationMs } = totals(report);
+  const suiteName = report.suiteName ?? `Run ${report.runId.slice(-4)}`;
+  const classname = [report.projectName, report.suiteName].filter(Boolean).join(".");
+  const attr = (name: string, value: string | number) => `${name}="${escapeXml(String(value))}"`;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites ${attr("name", report.projectName)} ${attr("tests", tests)} ${attr("failures", failed)} errors="0" ${attr("time", seconds(durationMs))}>`,
+    `  <testsuite ${attr("name", suiteName)} ${attr("tests", tests)} ${attr("failures", failed)} errors="0" skipped="0" ${attr("time", seconds(durationMs))} ${attr("timestamp", new Date(report.startTime).toISOString())}>`,
+    `    <properties>`,
+    `      <property name="runId" ${attr("value", report.runId)}/>`,
+    `      <property name="trigger" ${attr("value", report.trigger)}/>`,
+    `      <property name="status" ${attr("value", report.status)}/>`,
+    `    </properties>`,
+  ];
+
+  for (const test of report.tests) {
+    const open = `    <testcase ${attr("name", test.title)} ${attr("classname", classname)} ${attr("time", seconds(test.durationMs))}>`;
+    const failures = test.steps.filter((s) => s.status !== "pass").map(describeFailure);
+    if (test.status !== "pass" && failures.length === 0) failures.push(test.logs.at(-1) ?? "Test failed");
+
+    lines.push(open);
+    if (test.status !== "pass") {
+      lines.push(
+        `      <failure ${attr("message", failures[0])} type="AssertionError">${escapeXml(failures.join("\n"))}</failure>`
+      );
+    }
+    const out = [...test.logs, ...(test.recordingUrl ? [`Recording: ${test.recordingUrl}`] : [])];
+    lines.push(`      <system-out>${escapeXml(out.join("\n"))}</system-out>`);
+    lines.push(`    </testcase>`);
+  }
+
+  lines.push(`  </testsuite>`, `</testsuites>`, "");
+  return lines.join("\n");
+}
+
+// --- HTML --- //
+
+export type DiffPart = { kind: "same" | "missing" | "extra"; text: string };
+
+/**
+ * Word-level diff of the expected prompt against what was heard: "missing"
+ * words were expected but not heard, "extra" words were heard but not expected.
+ * Punctuation and case are ignored when matching.
+ */
+export function diffWords(expected: string, heard: string): DiffPart[] {
+  const a = expected.split(/\s+/).filter(Boolean);
+  const b = heard.split(/\s+/).filter(Boolean);
+  const key = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = key(a[i]) === key(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts.at(-1);
+    if (last?.kind === kind) last.text += ` ${text}`;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && key(a[i]) === key(b[j])) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push("missing", a[i++]);
+    } else {
+      push("extra", b[j++]);
+    }
+  }
+  return parts;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderDiff(expected: string, heard: string): string {
+  return diffWords(expected, heard)
+    .map((part) =>
+      part.kind === "same"
+        ? escapeHtml(part.text)
+        : part.kind === "missing"
+          ? `<del>${escapeHtml(part.text)}</del>`
+          : `<ins>${escapeHtml(part.text)}</ins>`
+    )
+    .join(" ");
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #111; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  .meta { color: #666; margin-bottom: 1.5rem; }
+  .totals span { display: inline-block; margin-right: 1.5rem; font-weight: 600; }
+  .pass { color: #15803d; } .fail { color: #b91c1c; }
+  section { border: 1px solid #ddd; border-radius: 8px; padding: 1rem; margin: 1rem 0; }
+  section h2 { font-size: 1.05rem; margin: 0 0 0.5rem; display: flex; justify-content: space-between; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-top: 1px solid #eee; }
+  th { color: #666; font-weight: 500; }
+  tr.failed td { background: #fef2f2; }
+  del { background: #fee2e2; color: #991b1b; } ins { background: #dcfce7; color: #166534; text-decoration: none; }
+  .detail { color: #666; font-size: 12px; }
+  pre { background: #f6f6f6; padding: 0.75rem; border-radius: 6px; white-space: pre-wrap; font-size: 12px; }
+  audio { width: 100%; margin: 0.5rem 0; }
+`;
+
+/** A single HTML file with inline styles, readable offline and attachable to CI builds. */
+export function toHtmlReport(report: RunReport): string {
+  const t = totals(report);
+  const title = report.suiteName ?? `Run ${report.runId.slice(-4)}`;
+
+  const sections = report.tests.map((test) => {
+    const rows = test.steps.map((step) => {
+      const heard =
+        step.expected && step.heard !== undefined ? renderDiff(step.expected, step.heard) : escapeHtml(step.heard ?? "");
+      return `<tr class="${step.status === "pass" ? "" : "failed"}">
+          <td>${step.stepIndex + 1}</td>
+          <td>${escapeHtml(step.action)}</td>
+          <td>${escapeHtml(step.input ?? "")}</td>
+          <td>${escapeHtml(step.expected ?? "")}</td>
+          <td>${heard}${step.detail ? `<div class="detail">${escapeHtml(step.detail)}</div>` : ""}</td>
+          <td class="${step.status === "pass" ? "pass" : "fail"}">${escapeHtml(step.status)}</td>
+          <td>${step.latencyMs !== undefined ? `${step.latencyMs}ms` : ""}</td>
+        </tr>`;
+    });
+    const recording = test.recordingUrl
+      ? `<audio controls src="${escapeHtml(test.recordingUrl)}"></audio>
+        <div><a href="${escapeHtml(test.recordingUrl)}">Open recording</a></div>`
+      : "";
+    return `<section>
+      <h2><span>${escapeHtml(test.title)}</span><span class="${test.status === "pass" ? "pass" : "fail"}">${escapeHtml(test.status.toUpperCase())} · ${Math.round(test.durationMs)}ms</span></h2>
+      ${recording}
+      <table>
+        <tr><th>#</th><th>Action</th><th>Input</th><th>Expected</th><th>Heard</th><th>Result</th><th>Latency</th></tr>
+        ${rows.join("\n        ")}
+      </table>
+      <details><summary>Logs</summary><pre>${escapeHtml(test.logs.join("\n"))}</pre></details>
+    </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${report.projectName} · ${title}`)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">
+    ${escapeHtml(report.projectName)} · ${escapeHtml(report.trigger)} run ${escapeHtml(report.runId)} ·
+    started ${escapeHtml(new Date(report.startTime).toISOString())}${report.summary ? ` · ${escapeHtml(report.summary)}` : ""}
+  </div>
+  <div class="totals">
+    <span>${t.tests} tests</span><span class="pass">${t.passed} passed</span><span class="fail">${t.failed} failed</span>
+    <span>${t.passRate}% pass rate</span><span>${seconds(t.durationMs)}s</span>
+  </div>
+  ${sections.join("\n  ")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,172 @@
+// --- Monitoring Schedules (interval / cron, active hours, timezone) --- //
+
+export const MIN_INTERVAL_MINUTES = 1; // The dispatcher cron runs once a minute
+
+export type ScheduleTiming = {
+  kind: "interval" | "cron";
+  intervalMinutes?: number;
+  cronExpression?: string;
+  timezone: string; // IANA name, e.g. "America/New_York"
+  activeHours?: { start: string; end: string }; // "HH:MM" in `timezone`; may wrap past midnight
+};
+
+type CronFields = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // day-of-month was "*"
+  anyWeekday: boolean; // day-of-week was "*"
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7], // day of week, 0 and 7 are Sunday
+];
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron field "${field}"`);
+    const [, star, first, last, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    const from = star ? min : Number(first);
+    // "5/15" runs from 5 to the end of the range, like "5-59/15"
+    const to = star ? max : last ? Number(last) : stepText ? max : from;
+    if (from < min || to > max || from > to || step < 1) {
+      throw new Error(`Cron field "${field}" is outside ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parses a standard 5-field expression: minute hour day-of-month month day-of-week. */
+export function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day month weekday");
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELD_RANGES[i]));
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+/** Wall-clock parts of `time` in `timezone`. */
+function localParts(time: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(new Date(time));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    month: Number(get("month")),
+    day: Number(get("day")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+  };
+}
+
+export function validateTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * The first minute after `after` matching the expression in `timezone`. Like
+ * cron, day-of-month and day-of-week match either one when both are set.
+ */
+export function nextCronTime(expression: string, after: number, timezone: string): number {
+  const cron = parseCron(expression);
+  let time = Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = after + 366 * 24 * 60 * MINUTE_MS;
+
+  while (time <= limit) {
+    const local = localParts(time, timezone);
+    const dayMatches =
+      cron.anyDay && cron.anyWeekday
+        ? true
+        : cron.anyDay
+          ? cron.weekdays.has(local.weekday)
+          : cron.anyWeekday
+            ? cron.days.has(local.day)
+            : cron.days.has(local.day) || cron.weekdays.has(local.weekday);
+
+    if (!cron.months.has(local.month) || !dayMatches) {
+      time += (24 * 60 - (local.hour * 60 + local.minute)) * MINUTE_MS; // next local midnight
+    } else if (!cron.hours.has(local.hour)) {
+      time += (60 - local.minute) * MINUTE_MS; // next hour
+    } else if (!cron.minutes.has(local.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return time;
+    }
+  }
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+function minutesOfDay(hhmm: string): number {
+  const match = hhmm.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) throw new Error(`Invalid time "${hhmm}", expected HH:MM`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Whether `time` falls inside the schedule's active hours (always, when it has none). */
+export function isWithinActiveHours(timing: ScheduleTiming, time: number): boolean {
+  if (!timing.activeHours) return true;
+  const start = minutesOfDay(timing.activeHours.start);
+  const end = minutesOfDay(timing.activeHours.end);
+  const local = localParts(time, timing.timezone);
+  const now = local.hour * 60 + local.minute;
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Throws with a readable message when the timing can never be dispatched. */
+export function validateScheduleTiming(timing: ScheduleTiming) {
+  validateTimezone(timing.timezone);
+  if (timing.kind === "interval") {
+    const minutes = timing.intervalMinutes;
+    if (minutes === undefined || !Number.isInteger(minutes) || minutes < MIN_INTERVAL_MINUTES) {
+      throw new Error(`Interval must be a whole number of minutes, at least ${MIN_INTERVAL_MINUTES}`);
+    }
+  } else {
+    if (!timing.cronExpression) throw new Error("Cron expression is required");
+    nextCronTime(timing.cronExpression, Date.now(), timing.timezone);
+  }
+  if (timing.activeHours) {
+    minutesOfDay(timing.activeHours.start);
+    minutesOfDay(timing.activeHours.end);
+  }
+}
+
+/** When the schedule is next due after `after`. Runs due outside active hours are skipped by the dispatcher. */
+export function nextRunTime(timing: ScheduleTiming, after: number): number {
+  return timing.kind === "interval"
+    ? after + (timing.intervalMinutes ?? MIN_INTERVAL_MINUTES) * MINUTE_MS
+    : nextCronTime(timing.cronExpression ?? "* * * * *", after, timing.timezone);
+}
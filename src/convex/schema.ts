@@ -16,6 +16,138 @@ export const roleValidator = v.union(
 );
 export type Role = Infer<typeof roleValidator>;
 
+export const crawlModeValidator = v.union(
+  v.literal("dfs"),
+  v.literal("bfs"),
+  v.literal("priority"),
+);
+export type CrawlMode = Infer<typeof crawlModeValidator>;
+
+// per-job limits for the discovery crawler. omitted fields are unbounded (maxDepth defaults to 5)
+export const crawlPolicyValidator = v.object({
+  mode: v.optional(crawlModeValidator), // exploration order, defaults to dfs
+  priorityKeywords: v.optional(v.array(v.string())), // "priority" mode: labels matching earlier keywords go first
+  maxDepth: v.optional(v.number()),
+  maxNodes: v.optional(v.number()),
+  maxCalls: v.optional(v.number()),
+  maxDurationSeconds: v.optional(v.number()),
+  maxOptionsPerMenu: v.optional(v.number()),
+  allowedDigits: v.optional(v.array(v.string())),
+  deniedDigits: v.optional(v.array(v.string())),
+  similarityThreshold: v.optional(v.number()), // 0-1 token similarity for loop detection, defaults to 0.9
+  minFuzzyTokens: v.optional(v.number()), // shorter prompts only match exactly, defaults to DEFAULT_MIN_FUZZY_TOKENS
+  probeErrors: v.optional(v.boolean()), // record each menu's invalid-key, no-input and retry-limit prompts, defaults to true
+  maxProbedMenus: v.optional(v.number()), // menus probed for errors, in crawl order; defaults to DEFAULT_MAX_PROBED_MENUS
+});
+export type CrawlPolicy = Infer<typeof crawlPolicyValidator>;
+
+// crawl counters saved with each checkpoint, so a resumed crawl keeps its budgets and report
+export const crawlStatsValidator = v.object({
+  startTime: v.number(), // first segment's start; maxDurationSeconds counts from here
+  nodesDiscovered: v.number(),
+  loopsDetected: v.number(),
+  maxDepthReached: v.number(),
+  errors: v.number(),
+  pruned: v.object({ // branches dropped by the crawl policy, per PruneReason
+    maxDepth: v.number(),
+    maxNodes: v.number(),
+    maxCalls: v.number(),
+    maxDuration: v.number(),
+    maxOptionsPerMenu: v.number(),
+    digitFilter: v.number(),
+  }),
+  navigation: v.object({ // CrawlNavigator metrics
+    callsPlaced: v.number(),
+    probeCalls: v.number(),
+    redials: v.number(),
+    backtracks: v.number(),
+    airtimeSavedMs: v.number(),
+  }),
+});
+export type CrawlStats = Infer<typeof crawlStatsValidator>;
+
+// which root-to-node paths test generation emits:
+//  all-nodes: one test ending at every node
+//  all-edges: fewest tests that traverse every transition (one per leaf)
+//  all-paths: every root-to-leaf path, following each loop back once
+export const coverageValidator = v.union(
+  v.literal("all-nodes"),
+  v.literal("all-edges"),
+  v.literal("all-paths"),
+);
+export type Coverage = Infer<typeof coverageValidator>;
+
+// named test generation strategies, see testGeneration.ts
+export const generationStrategyValidator = v.union(
+  v.literal("smoke"),
+  v.literal("full-path"),
+  v.literal("negative"),
+  v.literal("regression"),
+);
+export type GenerationStrategy = Infer<typeof generationStrategyValidator>;
+
+// prompt types the crawler can answer from the input vault
+export const credentialTypeValidator = v.union(
+  v.literal("account_number"),
+  v.literal("pin"),
+  v.literal("date_of_birth"),
+  v.literal("member_id"),
+  v.literal("ssn_last4"),
+  v.literal("zip_code"),
+  v.literal("phone_number"),
+  v.literal("other"), // matched by name only ("enter your claim number" → "Claim Number")
+);
+export type CredentialType = Infer<typeof credentialTypeValidator>;
+
+// typed checks on a listen step, see assertions.ts. without any, the prompt must match the step value exactly
+export const assertionTypeValidator = v.union(
+  v.literal("exact"),
+  v.literal("contains"),
+  v.literal("regex"),
+  v.literal("fuzzy"),
+  v.literal("any-of"),
+  v.literal("confidence"),
+  v.literal("latency"),
+  v.literal("duration"),
+);
+export type AssertionType = Infer<typeof assertionTypeValidator>;
+
+export const assertionValidator = v.object({
+  type: assertionTypeValidator,
+  value: v.optional(v.string()), // contains: text, regex: pattern. defaults to the step value
+  values: v.optional(v.array(v.string())), // any-of: accepted prompts
+  threshold: v.optional(v.number()), // fuzzy: minimum similarity, confidence: minimum ASR confidence (0-1)
+  minMs: v.optional(v.number()), // latency / duration bounds
+  maxMs: v.optional(v.number()),
+});
+export type Assertion = Infer<typeof assertionValidator>;
+
+// one step of a test case. action is call, listen, dtmf, speak or wait (see testSteps.ts)
+export const testStepValidator = v.object({
+  action: v.string(),
+  value: v.string(),
+  expected: v.optional(v.string()),
+  assertions: v.optional(v.array(assertionValidator)), // listen steps only; all must pass
+});
+export type TestStep = Infer<typeof testStepValidator>;
+
+// when an alert rule fires for a completed run, see alerting.ts
+//  any_failure: a test failed
+//  consecutive_failures: the threshold-th failed run in a row of the same suite or test
+//  pass_rate: fewer than threshold percent of the run's tests passed
+//  latency: a prompt took longer than threshold ms to answer
+export const alertConditionValidator = v.union(
+  v.literal("any_failure"),
+  v.literal("consecutive_failures"),
+  v.literal("pass_rate"),
+  v.literal("latency"),
+);
+export type AlertCondition = Infer<typeof alertConditionValidator>;
+
+// what a project API key may do over the HTTP API (see publicApi.ts). read: jobs, artifacts, tests, runs. run: start discovery and suite runs
+export const apiKeyPermissionValidator = v.union(v.literal("read"), v.literal("run"));
+export type ApiKeyPermission = Infer<typeof apiKeyPermissionValidator>;
+
 const schema = defineSchema(
   {
     // default auth tables using convex auth.
@@ -32,25 +164,58 @@ const schema = defineSchema(
       role: v.optional(roleValidator), // role of the user. do not remove
     }).index("email", ["email"]), // index for the email. do not remove or modify
 
+    workspaces: defineTable({
+      name: v.string(),
+      createdBy: v.id("users"),
+    }),
+
+    // A user's role in a workspace applies to all of its projects (see access.ts)
+    workspace_members: defineTable({
+      workspaceId: v.id("workspaces"),
+      userId: v.id("users"),
+      role: roleValidator,
+    })
+      .index("by_workspace", ["workspaceId"])
+      .index("by_user", ["userId"])
+      .index("by_workspace_and_user", ["workspaceId", "userId"]),
+
+    // Accepted by signing in with the invited email; deleted once accepted or declined
+    workspace_invitations: defineTable({
+      workspaceId: v.id("workspaces"),
+      email: v.string(), // Lowercased
+      role: roleValidator,
+      invitedBy: v.id("users"),
+    })
+      .index("by_workspace", ["workspaceId"])
+      .index("by_email", ["email"]),
+
     projects: defineTable({
       name: v.string(),
       description: v.optional(v.string()),
       type: v.string(), // voice, chat, etc
       status: v.string(),
       createdBy: v.string(),
+      workspaceId: v.optional(v.id("workspaces")), // Unset for projects created before workspaces
       platform: v.optional(v.string()), // Detected platform (e.g. Amazon Connect, Genesys)
-    }).index("by_creator", ["createdBy"]),
+      utterances: v.optional(v.array(v.string())), // Phrases discovery speaks at open-ended prompts
+    })
+      .index("by_creator", ["createdBy"])
+      .index("by_workspace", ["workspaceId"]),
 
     discovery_jobs: defineTable({
       projectId: v.id("projects"),
-      status: v.string(), // queued, running, completed, failed, waiting_for_input
+      status: v.string(), // queued, running, completed, failed, waiting_for_input, paused, cancelled
       entryPoint: v.string(),
       inputType: v.optional(v.string()), // Added inputType field
       platform: v.optional(v.string()),
       startTime: v.number(),
       endTime: v.optional(v.number()),
       waitingFor: v.optional(v.string()), // What input we are waiting for (e.g. "pin", "otp")
-      resumeState: v.optional(v.string()), // JSON string of the DFS stack for resuming
+      resumeState: v.optional(v.string()), // JSON string of the crawl frontier, checkpointed before every node
+      lastProgressAt: v.optional(v.number()), // Latest checkpoint or restart; startTime when omitted
+      crawlStats: v.optional(crawlStatsValidator), // Counters as of resumeState
+      controlRequest: v.optional(v.union(v.literal("pause"), v.literal("cancel"))), // Honored by the crawl loop between nodes
+      policy: v.optional(crawlPolicyValidator), // Crawl budgets and digit filters
       artifacts: v.optional(v.object({
         graph: v.string(), // JSON string of the graph model
         report: v.string(), // JSON string of the crawl report
@@ -65,10 +230,18 @@ const schema = defineSchema(
       timestamp: v.number(),
     }).index("by_job", ["jobId"]),
 
+    test_credentials: defineTable({
+      projectId: v.id("projects"),
+      name: v.string(), // e.g. "Primary account"
+      type: credentialTypeValidator,
+      value: v.string(), // DTMF keys to enter; masked in discovery_logs and test_results
+    }).index("by_project", ["projectId"]),
+
     ivr_nodes: defineTable({
       projectId: v.id("projects"),
+      jobId: v.optional(v.id("discovery_jobs")), // Discovery job whose graph snapshot this node belongs to
       parentId: v.optional(v.id("ivr_nodes")),
-      type: v.string(), // menu, prompt, input
+      type: v.string(), // menu, prompt, input, error (probe)
       label: v.string(),
       content: v.string(), // text or transcript
       metadata: v.optional(v.any()),
@@ -76,34 +249,113 @@ const schema = defineSchema(
       fingerprint: v.optional(v.string()), // Hash of the content for strict matching
       isLoop: v.optional(v.boolean()), // True if this node represents a loop back to an existing node
       linkedNodeId: v.optional(v.id("ivr_nodes")), // If isLoop, this points to the original node
+      matchScore: v.optional(v.number()), // If isLoop, similarity (0-1) to the linked node's prompt
+      matchThreshold: v.optional(v.number()), // Similarity threshold in effect when the node was crawled
     })
       .index("by_project", ["projectId"])
+      .index("by_job", ["jobId"])
+      .index("by_job_and_parent", ["jobId", "parentId"])
       .index("by_fingerprint", ["projectId", "fingerprint"]), // For loop detection
 
     test_cases: defineTable({
       projectId: v.id("projects"),
       targetNodeId: v.optional(v.id("ivr_nodes")),
+      sourceJobId: v.optional(v.id("discovery_jobs")), // Discovery the test was generated from; replays use its input type
       title: v.string(),
       description: v.optional(v.string()),
-      steps: v.array(v.object({
-        action: v.string(),
-        value: v.string(),
-        expected: v.optional(v.string())
-      })),
+      steps: v.array(testStepValidator),
       status: v.string(), // draft, approved, disabled
       tags: v.array(v.string()),
+      needsReview: v.optional(v.boolean()), // Set by reconciliation when the IVR no longer matches the test
+      reviewReason: v.optional(v.string()),
     })
       .index("by_project", ["projectId"])
       .index("by_project_and_target_node", ["projectId", "targetNodeId"]),
 
+    test_suites: defineTable({
+      projectId: v.id("projects"),
+      name: v.string(),
+      description: v.optional(v.string()),
+      tags: v.optional(v.array(v.string())), // Members carry any of these tags; every test when omitted
+      statuses: v.optional(v.array(v.string())), // Members have one of these statuses; all but disabled when omitted
+      order: v.optional(v.array(v.id("test_cases"))), // Run order; members not listed run last, oldest first
+      concurrency: v.optional(v.number()), // Tests in flight at once, see DEFAULT_SUITE_CONCURRENCY
+    }).index("by_project", ["projectId"]),
+
+    monitor_schedules: defineTable({
+      projectId: v.id("projects"),
+      suiteId: v.id("test_suites"),
+      enabled: v.boolean(),
+      kind: v.union(v.literal("interval"), v.literal("cron")),
+      intervalMinutes: v.optional(v.number()), // kind "interval"
+      cronExpression: v.optional(v.string()), // kind "cron": minute hour day month weekday
+      timezone: v.string(), // IANA name; cron fields and active hours are local to it
+      activeHours: v.optional(v.object({ start: v.string(), end: v.string() })), // "HH:MM"; runs due outside are skipped
+      nextRunAt: v.number(),
+      lastRunAt: v.optional(v.number()),
+      lastRunId: v.optional(v.id("test_runs")),
+    })
+      .index("by_project", ["projectId"])
+      .index("by_enabled_and_next_run", ["enabled", "nextRunAt"]),
+
+    alert_rules: defineTable({
+      projectId: v.id("projects"),
+      name: v.string(),
+      condition: alertConditionValidator,
+      threshold: v.optional(v.number()), // consecutive_failures: runs, pass_rate: percent, latency: ms
+      webhookUrl: v.string(),
+      secret: v.string(), // HMAC-SHA256 key for the X-CX-Navigator-Signature header, over "<timestamp>.<body>"
+      enabled: v.boolean(),
+    }).index("by_project", ["projectId"]),
+
+    // one webhook POST per fired rule (or test fire), with its retries
+    alert_deliveries: defineTable({
+      projectId: v.id("projects"),
+      ruleId: v.id("alert_rules"),
+      runId: v.optional(v.id("test_runs")), // omitted for test fires
+      event: v.string(), // run.alert, test
+      payload: v.string(), // JSON body, signed as sent
+      status: v.string(), // pending, delivered, failed
+      attempts: v.number(),
+      nextAttemptAt: v.optional(v.number()),
+      responseStatus: v.optional(v.number()),
+      error: v.optional(v.string()),
+      deliveredAt: v.optional(v.number()),
+    })
+      .index("by_project", ["projectId"])
+      .index("by_rule", ["ruleId"]),
+
+    api_keys: defineTable({
+      projectId: v.id("projects"),
+      name: v.string(),
+      prefix: v.string(), // First characters of the key, shown so keys can be told apart
+      hashedKey: v.string(), // SHA-256 hex of the full key; the key itself is only shown once
+      permissions: v.array(apiKeyPermissionValidator),
+      createdBy: v.string(),
+      lastUsedAt: v.optional(v.number()),
+      revokedAt: v.optional(v.number()),
+    })
+      .index("by_project", ["projectId"])
+      .index("by_hashed_key", ["hashedKey"]),
+
     test_runs: defineTable({
       projectId: v.id("projects"),
-      campaignId: v.optional(v.string()),
-      status: v.string(), // running, completed
+      campaignId: v.optional(v.string()), // Suite id for suite runs, grouping its runs in the history
+      trigger: v.optional(v.union(v.literal("manual"), v.literal("schedule"), v.literal("api"))), // manual when omitted
+      scheduleId: v.optional(v.id("monitor_schedules")), // trigger "schedule"
+      status: v.string(), // running, completed, failed (stopped reporting results, see execution.failStaleRun)
       startTime: v.number(),
       endTime: v.optional(v.number()),
+      lastProgressAt: v.optional(v.number()), // Start or latest result; startTime when omitted
       summary: v.optional(v.string()),
-    }).index("by_project", ["projectId"]),
+      // Suite runs only: one result per test, and the run completes with the last one
+      totalTests: v.optional(v.number()),
+      passed: v.optional(v.number()),
+      failed: v.optional(v.number()),
+      pendingTestCaseIds: v.optional(v.array(v.id("test_cases"))), // Members not started yet, in run order
+    })
+      .index("by_project", ["projectId"])
+      .index("by_status", ["status"]),
 
     test_results: defineTable({
       runId: v.id("test_runs"),
@@ -118,7 +370,8 @@ const schema = defineSchema(
         expected: v.optional(v.string()),
         actual: v.optional(v.string()),
         status: v.string(), // pass, fail
-        timestamp: v.number()
+        timestamp: v.number(),
+        latencyMs: v.optional(v.number()), // prompt latency, for steps that send input
       })))
     }).index("by_run", ["runId"]),
   },
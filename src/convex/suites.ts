@@ -0,0 +1,146 @@
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAccessibleProject, requireProject, requireProjectDoc } from "./access";
+
+export const DEFAULT_SUITE_CONCURRENCY = 3;
+export const MAX_SUITE_CONCURRENCY = 10;
+
+const suiteFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  tags: v.optional(v.array(v.string())),
+  statuses: v.optional(v.array(v.string())),
+  order: v.optional(v.array(v.id("test_cases"))),
+  concurrency: v.optional(v.number()),
+};
+
+function cleanList(values: string[] | undefined): string[] | undefined {
+  const cleaned = [...new Set((values ?? []).map((value) => value.trim()).filter(Boolean))];
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+function validateSuite(args: { name: string; concurrency?: number }) {
+  if (!args.name.trim()) throw new Error("Suite name is required");
+  const concurrency = args.concurrency;
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_SUITE_CONCURRENCY)
+  ) {
+    throw new Error(`Suite concurrency must be a whole number between 1 and ${MAX_SUITE_CONCURRENCY}`);
+  }
+}
+
+/**
+ * Use this function internally to list a suite's test cases in run order.
+ * Membership follows the suite's tag and status filters at call time, so new
+ * tests matching them are picked up without editing the suite.
+ */
+export const getSuiteMembers = async (
+  ctx: QueryCtx,
+  suite: Pick<Doc<"test_suites">, "projectId" | "tags" | "statuses" | "order">
+) => {
+  const testCases = await ctx.db
+    .query("test_cases")
+    .withIndex("by_project", (q) => q.eq("projectId", suite.projectId))
+    .collect();
+
+  const members = testCases.filter(
+    (t) =>
+      (suite.statuses ? suite.statuses.includes(t.status) : t.status !== "disabled") &&
+      (!suite.tags || t.tags.some((tag) => suite.tags!.includes(tag)))
+  );
+
+  const position = new Map<Id<"test_cases">, number>((suite.order ?? []).map((id, i) => [id, i]));
+  const rank = (t: Doc<"test_cases">) => position.get(t._id) ?? Number.MAX_SAFE_INTEGER;
+  return members.sort((a, b) => rank(a) - rank(b) || a._creationTime - b._creationTime);
+};
+
+export const create = mutation({
+  args: { projectId: v.id("projects"), ...suiteFields },
+  handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+    validateSuite(args);
+
+    return await ctx.db.insert("test_suites", {
+      ...args,
+      name: args.name.trim(),
+      tags: cleanList(args.tags),
+      statuses: cleanList(args.statuses),
+    });
+  },
+});
+
+export const update = mutation({
+  args: { id: v.id("test_suites"), ...suiteFields },
+  handler: async (ctx, args) => {
+    const { id, ...fields } = args;
+    const suite = await requireProjectDoc(ctx, id, "Suite");
+    validateSuite(args);
+
+    // replace() so that cleared filters are removed rather than kept
+    await ctx.db.replace(id, {
+      projectId: suite.projectId,
+      ...fields,
+      name: fields.name.trim(),
+      tags: cleanList(fields.tags),
+      statuses: cleanList(fields.statuses),
+    });
+  },
+});
+
+// Runs of a deleted suite stay in the history under their campaignId
+export const remove = mutation({
+  args: { id: v.id("test_suites") },
+  handler: async (ctx, args) => {
+    const suite = await requireProjectDoc(ctx, args.id, "Suite");
+    const schedules = await ctx.db
+      .query("monitor_schedules")
+      .withIndex("by_project", (q) => q.eq("projectId", suite.projectId))
+      .collect();
+    for (const schedule of schedules) {
+      if (schedule.suiteId === args.id) await ctx.db.delete(schedule._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// --- Queries --- //
+
+export const list = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const suites = await ctx.db
+      .query("test_suites")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .collect();
+    return await Promise.all(
+      suites.map(async (suite) => ({
+        ...suite,
+        members: (await getSuiteMembers(ctx, suite)).map((t) => ({ _id: t._id, title: t.title })),
+      }))
+    );
+  },
+});
+
+/** The members a suite with these filters would have, for editing before saving. */
+export const previewMembers = query({
+  args: {
+    projectId: v.id("projects"),
+    tags: v.optional(v.array(v.string())),
+    statuses: v.optional(v.array(v.string())),
+    order: v.optional(v.array(v.id("test_cases"))),
+  },
+  handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
+    const members = await getSuiteMembers(ctx, {
+      ...args,
+      tags: cleanList(args.tags),
+      statuses: cleanList(args.statuses),
+    });
+    return members.map((t) => ({ _id: t._id, title: t.title, status: t.status }));
+  },
+});
@@ -0,0 +1,434 @@
+import {
+  extractMenuOptions,
+  isOpenEndedPrompt,
+  NavigationKeys,
+  splitNavigationOptions,
+} from "./menuOptions";
+import { normalizeText } from "./prompts";
+
+// --- Types & Interfaces --- //
+
+export type FlowNode = {
+  label: string;
+  type: "menu" | "prompt" | "input";
+  content: string;
+  metadata?: Record<string, unknown>;
+  children?: FlowNode[];
+};
+
+export type CuratedIVR = {
+  id: string;
+  entryPoints: string[];
+  platform: string;
+  industry: string;
+  welcome: string;
+  branches: FlowNode[];
+  navigation?: NavigationKeys; // Keys that return to the main/previous menu from anywhere
+};
+
+export type AudioProcessingResult = {
+  transcript: string;
+  confidence: number;
+  audioUrl: string;
+  durationMs: number;
+  latencyMs?: number; // From the input being sent to the prompt starting, when the backend measures it
+  detectedDtmf?: string;
+};
+
+// --- Helper Functions --- //
+
+export function normalizeEntryPoint(value: string): string {
+  let normalized = value.trim().toLowerCase();
+  normalized = normalized.replace(/[^0-9+a-z:]/g, "");
+  return normalized;
+}
+
+export function parseTranscriptFlow(text: string): CuratedIVR {
+  const extracted = extractMenuOptions(text);
+  const { navigation, options } = splitNavigationOptions(extracted);
+  const branches: FlowNode[] = options.map((option) => ({
+    label: option.label,
+    type: "prompt",
+    content: `(Simulated) You selected ${option.label}.`,
+    metadata: { dtmf: option.dtmf, confidence: 1.0 },
+  }));
+  for (const option of extracted) {
+    if (option.kind !== "speech") continue;
+    branches.push({
+      label: option.label,
+      type: "prompt",
+      content: `(Simulated) You said ${option.label}.`,
+      metadata: { speech: option.speech, confidence: 1.0 },
+    });
+  }
+
+  // Sub-menus advertise the same navigation keys the main menu does
+  if (navigation.mainMenu) {
+    for (const branch of branches) {
+      branch.content += ` Press ${navigation.mainMenu} for the main menu.`;
+    }
+  }
+
+  return {
+    id: "transcript_flow",
+    entryPoints: [],
+    platform: "Text Transcript",
+    industry: "Unknown",
+    welcome: text,
+    branches,
+    navigation,
+  };
+}
+
+// --- Telephony Abstraction (Interface + Factory + Implementations) --- //
+
+export interface TelephonySession {
+  dial(): Promise<AudioProcessingResult>;
+  sendDtmf(digit: string): Promise<AudioProcessingResult>;
+  speak(utterance: string): Promise<AudioProcessingResult>;
+  wait(seconds: number): Promise<AudioProcessingResult>; // Stay silent, returning what the IVR says on no input
+  hangup(): Promise<void>;
+}
+
+/**
+ * Real telephony session: talks to a separate backend that:
+ *  - places the call
+ *  - listens to prompts
+ *  - runs ASR
+ *  - returns AudioProcessingResult JSON
+ */
+export class RealTelephonySession implements TelephonySession {
+  private callId: string | null = null;
+  private endpoint: string;
+  private backendUrl: string;
+
+  constructor(endpoint: string, backendUrl: string) {
+    this.endpoint = endpoint;
+    this.backendUrl = backendUrl;
+  }
+
+  async dial(): Promise<AudioProcessingResult> {
+    try {
+      const res = await fetch(`${this.backendUrl}/dial`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: this.endpoint }),
+      });
+
+      if (!res.ok) {
+        if (res.status === 404) {
+          throw new Error(
+            `Telephony backend returned 404 (Not Found). You might be pointing TELEPHONY_BACKEND_URL to the frontend instead of the backend server, or the /dial endpoint is missing. Check TELEPHONY_SETUP.md.`
+          );
+        }
+        throw new Error(`Dial failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+      this.callId = data.callId;
+
+      return {
+        transcript: data.transcript ?? "",
+        confidence: data.confidence ?? 0,
+        audioUrl: data.audioUrl ?? "",
+        durationMs: data.durationMs ?? 0,
+        latencyMs: data.latencyMs,
+        detectedDtmf: data.detectedDtmf,
+      };
+    } catch (err: any) {
+      throw new Error(`RealTelephonySession.dial error: ${err.message}`);
+    }
+  }
+
+  async sendDtmf(digit: string): Promise<AudioProcessingResult> {
+    if (!this.callId) {
+      throw new Error("Call not connected");
+    }
+
+    try {
+      const res = await fetch(`${this.backendUrl}/send-dtmf`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ callId: this.callId, digit }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`sendDtmf failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+
+      return {
+        transcript: data.transcript ?? "",
+        confidence: data.confidence ?? 0,
+        audioUrl: data.audioUrl ?? "",
+        durationMs: data.durationMs ?? 0,
+        latencyMs: data.latencyMs,
+        detectedDtmf: data.detectedDtmf,
+      };
+    } catch (err: any) {
+      throw new Error(`RealTelephonySession.sendDtmf error: ${err.message}`);
+    }
+  }
+
+  async speak(utterance: string): Promise<AudioProcessingResult> {
+    if (!this.callId) {
+      throw new Error("Call not connected");
+    }
+
+    try {
+      const res = await fetch(`${this.backendUrl}/speak`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ callId: this.callId, utterance }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`speak failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+
+      return {
+        transcript: data.transcript ?? "",
+        confidence: data.confidence ?? 0,
+        audioUrl: data.audioUrl ?? "",
+        durationMs: data.durationMs ?? 0,
+        latencyMs: data.latencyMs,
+        detectedDtmf: data.detectedDtmf,
+      };
+    } catch (err) {
+      throw new Error(
+        `RealTelephonySession.speak error: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  async wait(seconds: number): Promise<AudioProcessingResult> {
+    if (!this.callId) {
+      throw new Error("Call not connected");
+    }
+
+    try {
+      const res = await fetch(`${this.backendUrl}/wait`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ callId: this.callId, seconds }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`wait failed with status ${res.status}`);
+      }
+
+      const data = await res.json();
+
+      return {
+        transcript: data.transcript ?? "",
+        confidence: data.confidence ?? 0,
+        audioUrl: data.audioUrl ?? "",
+        durationMs: data.durationMs ?? 0,
+        latencyMs: data.latencyMs,
+        detectedDtmf: data.detectedDtmf,
+      };
+    } catch (err) {
+      throw new Error(
+        `RealTelephonySession.wait error: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  async hangup(): Promise<void> {
+    if (!this.callId) return;
+
+    try {
+      await fetch(`${this.backendUrl}/hangup`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ callId: this.callId }),
+      });
+    } catch (err: any) {
+      console.error(`RealTelephonySession.hangup error: ${err.message}`);
+    } finally {
+      this.callId = null;
+    }
+  }
+}
+
+// Consecutive invalid keys after which the simulated IVR hangs up
+const MAX_INVALID_ATTEMPTS = 3;
+
+/**
+ * Simple simulator used ONLY when:
+ *  - inputType === "text" (user pasted transcript)
+ *  - inputType === "simulated" (explicit dev mode)
+ */
+export class SimulatedTelephonySession implements TelephonySession {
+  private flow: CuratedIVR;
+  private currentNode: FlowNode | null = null;
+  private history: FlowNode[] = []; // Ancestors of currentNode, for "previous menu"
+  private invalidAttempts = 0; // Consecutive invalid keys; the call ends at MAX_INVALID_ATTEMPTS
+  private isConnected = false;
+
+  constructor(entryPoint: string, inputType?: string) {
+    if (inputType === "text") {
+      this.flow = parseTranscriptFlow(entryPoint);
+    } else {
+      // minimal generic wrapper for simulated mode
+      this.flow = {
+        id: "simulated_text",
+        entryPoints: [entryPoint],
+        platform: "Simulated",
+        industry: "Unknown",
+        welcome: entryPoint,
+        branches: [],
+      };
+    }
+  }
+
+  async dial(): Promise<AudioProcessingResult> {
+    this.isConnected = true;
+    this.invalidAttempts = 0;
+    return this.processAudio(this.flow.welcome);
+  }
+
+  async sendDtmf(digit: string): Promise<AudioProcessingResult> {
+    if (!this.isConnected) throw new Error("Call not connected");
+
+    const navigation = this.flow.navigation;
+    if (navigation?.mainMenu === digit) {
+      this.currentNode = null;
+      this.history = [];
+      return this.processAudio(this.flow.welcome);
+    }
+    if (navigation?.previousMenu === digit) {
+      this.currentNode = this.history.pop() ?? null;
+      return this.processAudio(this.currentNode ? this.currentNode.content : this.flow.welcome);
+    }
+
+    let children = this.currentNode ? this.currentNode.children : this.flow.branches;
+
+    if (!children || children.length === 0) {
+      return this.rejectInput("Invalid option.");
+    }
+
+    const match = children.find((c) => c.metadata?.dtmf === digit);
+    if (match) {
+      this.invalidAttempts = 0;
+      if (this.currentNode) this.history.push(this.currentNode);
+      this.currentNode = match;
+      return this.processAudio(match.content);
+    }
+
+    return this.rejectInput("Invalid selection. Please try again.");
+  }
+
+  /**
+   * Matches the utterance against the current menu's speech phrases and labels
+   * ("billing" selects "Press 1 for billing"). An open-ended prompt without
+   * options ("tell me why you're calling") accepts whatever was said.
+   */
+  async speak(utterance: string): Promise<AudioProcessingResult> {
+    if (!this.isConnected) throw new Error("Call not connected");
+
+    const said = normalizeText(utterance);
+    const children = this.currentNode ? this.currentNode.children : this.flow.branches;
+
+    if (!children || children.length === 0) {
+      const prompt = this.currentNode ? this.currentNode.content : this.flow.welcome;
+      if (!isOpenEndedPrompt(prompt)) {
+        return this.processAudio("Sorry, I didn't understand that.");
+      }
+      if (this.currentNode) this.history.push(this.currentNode);
+      this.currentNode = {
+        label: utterance,
+        type: "prompt",
+        content: `(Simulated) You said ${utterance}.`,
+        metadata: { speech: utterance },
+      };
+      return this.processAudio(this.currentNode.content);
+    }
+
+    const match =
+      children.find((c) => typeof c.metadata?.speech === "string" && normalizeText(c.metadata.speech) === said) ??
+      children.find((c) => said.length > 0 && normalizeText(c.label).includes(said));
+    if (match) {
+      if (this.currentNode) this.history.push(this.currentNode);
+      this.currentNode = match;
+      return this.processAudio(match.content);
+    }
+
+    return this.processAudio("Sorry, I didn't understand that. Please try again.");
+  }
+
+  /** Behaves like most IVRs on no input: apologizes and replays the current prompt. */
+  async wait(): Promise<AudioProcessingResult> {
+    if (!this.isConnected) throw new Error("Call not connected");
+
+    const prompt = this.currentNode ? this.currentNode.content : this.flow.welcome;
+    return this.processAudio(`Sorry, we didn't receive any input. ${prompt}`);
+  }
+
+  async hangup() {
+    this.isConnected = false;
+    this.currentNode = null;
+    this.history = [];
+    this.invalidAttempts = 0;
+  }
+
+  private rejectInput(message: string): AudioProcessingResult {
+    this.invalidAttempts++;
+    if (this.invalidAttempts >= MAX_INVALID_ATTEMPTS) {
+      this.isConnected = false;
+      return this.processAudio("Too many invalid attempts. Goodbye.");
+    }
+    return this.processAudio(message);
+  }
+
+  private processAudio(text: string): AudioProcessingResult {
+    const confidence = 0.9;
+    const duration = text.length * 50;
+
+    return {
+      transcript: text,
+      confidence,
+      audioUrl: `https://example.com/simulated/${Math.random()
+        .toString(36)
+        .substring(7)}.mp3`,
+      durationMs: duration,
+    };
+  }
+}
+
+/**
+ * Factory: choose which TelephonySession to use based on entryPoint + inputType.
+ *
+ *  - inputType === "text"       → transcript-based simulation
+ *  - inputType === "simulated"  → simulated dev mode
+ *  - phone number or sip: URI   → real telephony (ALWAYS)
+ */
+export function createTelephonySession(
+  entryPoint: string,
+  inputType: string | undefined,
+  backendUrl?: string
+): TelephonySession {
+  if (inputType === "text" || inputType === "simulated") {
+    return new SimulatedTelephonySession(entryPoint, inputType);
+  }
+
+  const ep = normalizeEntryPoint(entryPoint);
+  const looksLikePhone = /^(\+?\d{6,})$/.test(ep) || ep.startsWith("tel");
+  const looksLikeSip = ep.startsWith("sip");
+
+  if (looksLikePhone || looksLikeSip) {
+    if (!backendUrl) {
+      throw new Error("TELEPHONY_BACKEND_URL is not configured for RealTelephonySession");
+    }
+    return new RealTelephonySession(entryPoint, backendUrl);
+  }
+
+  // Default: treat unknown formats as real to avoid silently simulating
+  if (!backendUrl) {
+    throw new Error("TELEPHONY_BACKEND_URL is not configured for RealTelephonySession");
+  }
+  return new RealTelephonySession(entryPoint, backendUrl);
+}
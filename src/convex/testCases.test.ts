@@ -0,0 +1,104 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { ROLES } from "./schema";
+
+const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const MAIN = "Press 1 for billing.";
+const BILLING = "Billing. Press 1 for payments.";
+const PAYMENTS = "Payments. Please hold.";
+
+async function setup() {
+  const t = convexTest(schema, modules);
+  const ids = await t.run(async (ctx) => {
+    const userId = await ctx.db.insert("users", { name: "Alice" });
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Acme", createdBy: userId });
+    await ctx.db.insert("workspace_members", { workspaceId, userId, role: ROLES.ADMIN });
+    const projectId = await ctx.db.insert("projects", {
+      name: "Support line",
+      type: "voice",
+      status: "active",
+      createdBy: userId,
+      workspaceId,
+    });
+    return { userId, projectId };
+  });
+  return { t, ...ids, asAlice: t.withIdentity({ subject: `${ids.userId}|session` }) };
+}
+
+type Setup = Awaited<ReturnType<typeof setup>>;
+
+/** A completed discovery of main menu → billing → payments, returning the payments node. */
+async function discover({ t, projectId }: Setup, prompts: [string, string, string]) {
+  return await t.run(async (ctx) => {
+    const jobId = await ctx.db.insert("discovery_jobs", {
+      projectId,
+      status: "completed",
+      entryPoint: "+15550100",
+      startTime: Date.now(),
+    });
+    let parentId: Id<"ivr_nodes"> | undefined;
+    const paths = ["", "1", "1>1"];
+    for (const [depth, content] of prompts.entries()) {
+      parentId = await ctx.db.insert("ivr_nodes", {
+        projectId,
+        jobId,
+        parentId,
+        type: depth === 0 ? "menu" : "prompt",
+        label: depth === 0 ? "Main Menu" : "Option 1",
+        content,
+        metadata: { path: paths[depth], dtmf: depth === 0 ? undefined : "1" },
+      });
+    }
+    return { jobId, targetNodeId: parentId! };
+  });
+}
+
+describe("reconcile", () => {
+  test("flags path tests when a menu above their target changes", async () => {
+    const project = await setup();
+    const { t, asAlice, projectId } = project;
+    const first = await discover(project, [MAIN, BILLING, PAYMENTS]);
+    const testCaseId = await t.run((ctx) =>
+      ctx.db.insert("test_cases", {
+        projectId,
+        title: "Verify Main Menu › Option 1 › Option 1",
+        steps: [
+          { action: "call", value: "+15550100" },
+          { action: "listen", value: MAIN },
+          { action: "dtmf", value: "1" },
+          { action: "listen", value: BILLING },
+          { action: "dtmf", value: "1" },
+          { action: "listen", value: PAYMENTS },
+        ],
+        status: "approved",
+        tags: [],
+        targetNodeId: first.targetNodeId,
+      })
+    );
+
+    const changed = "Billing and refunds. Press 1 for payments.";
+    const second = await discover(project, [MAIN, changed, PAYMENTS]);
+    const summary = await t.mutation(internal.testCases.reconcile, { projectId, jobId: second.jobId });
+
+    expect(summary).toEqual({ relinked: 1, flagged: 1, cleared: 0 });
+    expect(await t.run((ctx) => ctx.db.get(testCaseId))).toMatchObject({
+      targetNodeId: second.targetNodeId,
+      needsReview: true,
+      reviewReason: `Expected prompt at "1" changed. Discovery now hears: "${changed}"`,
+    });
+
+    await asAlice.mutation(api.testCases.resolveReview, { id: testCaseId, acceptDiscoveredPrompt: true });
+    const resolved = await t.run((ctx) => ctx.db.get(testCaseId));
+    expect(resolved?.needsReview).toBeUndefined();
+    expect(resolved?.steps.filter((s) => s.action === "listen").map((s) => s.value)).toEqual([
+      MAIN,
+      changed,
+      PAYMENTS,
+    ]);
+  });
+});
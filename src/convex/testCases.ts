@@ -1,119 +1,182 @@
 import { v } from "convex/values";
-import { internalMutation, mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query, QueryCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { getAccessibleDoc, getAccessibleProject, requireProject, requireProjectDoc } from "./access";
+import { acceptsPromptText } from "./assertions";
+import { getSnapshotNodes } from "./discovery";
+import { fingerprintPrompt } from "./prompts";
+import { coverageValidator, generationStrategyValidator, TestStep, testStepValidator } from "./schema";
+import { generateTests } from "./testGeneration";
+import { validateTestSteps } from "./testSteps";
 
 export const generateFromNodes = mutation({
-  args: { projectId: v.id("projects") },
+  args: {
+    projectId: v.id("projects"),
+    strategy: v.optional(generationStrategyValidator),
+    coverage: v.optional(coverageValidator),
+  },
   handler: async (ctx, args) => {
-    const nodes = await ctx.db
-      .query("ivr_nodes")
+    await requireProject(ctx, args.projectId);
+    return await generateTests(ctx, {
+      projectId: args.projectId,
+      strategy: args.strategy ?? "full-path",
+      coverage: args.coverage,
+    });
+  },
+});
+
+export const generateInternal = internalMutation({
+  args: {
+    projectId: v.id("projects"),
+    jobId: v.id("discovery_jobs"),
+    strategy: v.optional(generationStrategyValidator),
+    coverage: v.optional(coverageValidator),
+  },
+  handler: async (ctx, args) => {
+    return await generateTests(ctx, {
+      projectId: args.projectId,
+      jobId: args.jobId,
+      strategy: args.strategy ?? "full-path",
+      coverage: args.coverage,
+    });
+  },
+});
+
+function nodePath(node: Doc<"ivr_nodes">): string {
+  return typeof node.metadata?.path === "string" ? node.metadata.path : node.label;
+}
+
+/** The node and the prompts above it, main menu first. */
+async function promptChain(ctx: QueryCtx, node: Doc<"ivr_nodes">): Promise<Doc<"ivr_nodes">[]> {
+  const chain = [node];
+  for (let parentId = node.parentId; parentId; ) {
+    const parent = await ctx.db.get(parentId);
+    if (!parent) break;
+    chain.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return chain;
+}
+
+/**
+ * Pairs `listen` steps with the prompts they expect, from the end: the last
+ * listen is the target's prompt, the one before it its parent's, and so on up
+ * the path. Listens above the main menu's are left unpaired.
+ */
+function pairListens(steps: TestStep[], chain: Doc<"ivr_nodes">[]): { index: number; node: Doc<"ivr_nodes"> }[] {
+  const listens = steps.flatMap((step, index) => (step.action === "listen" ? [index] : []));
+  const pairs = [];
+  for (let i = 1; i <= Math.min(listens.length, chain.length); i++) {
+    pairs.push({ index: listens[listens.length - i], node: chain[chain.length - i] });
+  }
+  return pairs;
+}
+
+/**
+ * Runs after each completed discovery. Re-links every test case to the node in
+ * the job's snapshot with the same path, or failing that the same prompt
+ * fingerprint, and flags tests whose target disappeared or whose `listen`
+ * steps no longer accept the prompts discovered along the target's path. Flags are recomputed on every
+ * pass, so fixing a test or the IVR clears them.
+ */
+export const reconcile = internalMutation({
+  args: { projectId: v.id("projects"), jobId: v.id("discovery_jobs") },
+  handler: async (ctx, args) => {
+    const nodes = await getSnapshotNodes(ctx, args.projectId, args.jobId);
+    const byPath = new Map<string, Doc<"ivr_nodes">>();
+    const byFingerprint = new Map<string, Doc<"ivr_nodes">>();
+    for (const node of nodes) {
+      if (!byPath.has(nodePath(node))) byPath.set(nodePath(node), node);
+      const fingerprint = fingerprintPrompt(node.content);
+      if (!byFingerprint.has(fingerprint)) byFingerprint.set(fingerprint, node);
+    }
+
+    const testCases = await ctx.db
+      .query("test_cases")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
       .collect();
 
-    if (nodes.length === 0) return { count: 0 };
+    const summary = { relinked: 0, flagged: 0, cleared: 0 };
 
-    // Simple rule-based generation: Create a test case for each leaf node path
-    // For this demo, we just create tests for each node found
-    let count = 0;
-    
-    for (const node of nodes) {
-      const existing = await ctx.db
-        .query("test_cases")
-        .withIndex("by_project_and_target_node", (q) =>
-          q.eq("projectId", args.projectId).eq("targetNodeId", node._id)
-        )
-        .unique();
-
-      if (existing) continue;
-
-      const entryPoint =
-        typeof node.metadata?.entryPoint === "string"
-          ? (node.metadata.entryPoint as string)
-          : "+10000000000";
-
-      const steps: { action: string; value: string; expected?: string }[] = [
-        { action: "call", value: entryPoint },
-        { action: "listen", value: node.content },
-      ];
-
-      if (node.metadata?.dtmf) {
-        steps.push({ action: "dtmf", value: String(node.metadata.dtmf) });
+    for (const testCase of testCases) {
+      const listen = testCase.steps.filter((s) => s.action === "listen").pop();
+      const previous = testCase.targetNodeId ? await ctx.db.get(testCase.targetNodeId) : null;
+
+      let target: Doc<"ivr_nodes"> | undefined;
+      if (previous) {
+        target =
+          previous.jobId === args.jobId
+            ? previous
+            : byPath.get(nodePath(previous)) ?? byFingerprint.get(fingerprintPrompt(previous.content));
+      } else if (!testCase.targetNodeId && listen) {
+        // Manual tests are linked once discovery finds the prompt they expect
+        target = byFingerprint.get(fingerprintPrompt(listen.value));
       }
 
-      if (node.metadata?.intent) {
-        steps.push({ action: "speak", value: String(node.metadata.intent) });
+      let reviewReason: string | undefined;
+      if (testCase.targetNodeId && !target) {
+        reviewReason = previous
+          ? `Prompt at "${nodePath(previous) || "Main Menu"}" was not found in the latest discovery`
+          : "Target node no longer exists";
+      } else if (target) {
+        const changed = pairListens(testCase.steps, await promptChain(ctx, target)).find(
+          ({ index, node }) => !acceptsPromptText(testCase.steps[index], node.content)
+        );
+        if (changed?.node._id === target._id) {
+          reviewReason = `Expected prompt changed. Discovery now hears: "${target.content}"`;
+        } else if (changed) {
+          reviewReason = `Expected prompt at "${nodePath(changed.node) || "Main Menu"}" changed. Discovery now hears: "${changed.node.content}"`;
+        }
       }
 
-      await ctx.db.insert("test_cases", {
-        projectId: args.projectId,
-        title: `Verify ${node.label}`,
-        description: `Navigate to ${node.label} and verify prompt`,
-        steps,
-        status: "draft",
-        targetNodeId: node._id,
-        tags: ["auto-generated", "smoke"],
-      });
-      count++;
+      const relink = target && target._id !== testCase.targetNodeId;
+      if (relink) summary.relinked++;
+      if (reviewReason) summary.flagged++;
+      else if (testCase.needsReview) summary.cleared++;
+
+      if (relink || reviewReason !== testCase.reviewReason || !!reviewReason !== !!testCase.needsReview) {
+        await ctx.db.patch(testCase._id, {
+          targetNodeId: target?._id ?? testCase.targetNodeId,
+          needsReview: reviewReason ? true : undefined,
+          reviewReason,
+        });
+      }
     }
 
-    return { count };
+    return summary;
   },
 });
 
-export const generateInternal = internalMutation({
-  args: { projectId: v.id("projects") },
+/** Clears a review flag, optionally adopting the currently discovered prompts as the expected text. */
+export const resolveReview = mutation({
+  args: {
+    id: v.id("test_cases"),
+    acceptDiscoveredPrompt: v.optional(v.boolean()),
+  },
   handler: async (ctx, args) => {
-    // Reuse the logic by calling the same implementation or duplicating for now to avoid 'this' context issues
-    // We'll just duplicate the core logic for safety in this context
-     const nodes = await ctx.db
-      .query("ivr_nodes")
-      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-      .collect();
+    const testCase = await requireProjectDoc(ctx, args.id, "Test case");
 
-    if (nodes.length === 0) return { count: 0 };
-
-    let count = 0;
-    const generatedTests = [];
-    
-    for (const node of nodes) {
-      const existing = await ctx.db
-        .query("test_cases")
-        .withIndex("by_project_and_target_node", (q) =>
-          q.eq("projectId", args.projectId).eq("targetNodeId", node._id)
-        )
-        .unique();
-
-      if (existing) continue;
-
-      const entryPoint = typeof node.metadata?.entryPoint === "string" ? (node.metadata.entryPoint as string) : "+10000000000";
-
-      const steps = [
-        { action: "call", value: entryPoint },
-        { action: "listen", value: node.content },
-      ];
-
-      if (node.metadata?.dtmf) steps.push({ action: "dtmf", value: String(node.metadata.dtmf) });
-      if (node.metadata?.intent) steps.push({ action: "speak", value: String(node.metadata.intent) });
-
-      const testCaseId = await ctx.db.insert("test_cases", {
-        projectId: args.projectId,
-        title: `Verify ${node.label}`,
-        description: `Navigate to ${node.label} and verify prompt`,
-        steps,
-        status: "draft",
-        targetNodeId: node._id,
-        tags: ["auto-generated", "smoke"],
-      });
-      generatedTests.push({ id: testCaseId, title: `Verify ${node.label}` });
-      count++;
+    let steps = testCase.steps;
+    if (args.acceptDiscoveredPrompt) {
+      const target = testCase.targetNodeId ? await ctx.db.get(testCase.targetNodeId) : null;
+      if (!target) throw new Error("Test case has no discovered prompt to accept");
+      const pairs = pairListens(steps, await promptChain(ctx, target));
+      if (pairs.length === 0) throw new Error("Test case has no listen step");
+      const discovered = new Map(pairs.map(({ index, node }) => [index, node.content]));
+      steps = steps.map((s, i) =>
+        discovered.has(i) && !acceptsPromptText(s, discovered.get(i)!) ? { ...s, value: discovered.get(i)! } : s
+      );
     }
 
-    return { count, generatedTests };
+    await ctx.db.patch(args.id, { steps, needsReview: undefined, reviewReason: undefined });
   },
 });
 
 export const list = query({
   args: { projectId: v.id("projects") },
   handler: async (ctx, args) => {
+    if (!(await getAccessibleProject(ctx, args.projectId))) return [];
+
     return await ctx.db
       .query("test_cases")
       .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
@@ -121,6 +184,21 @@ export const list = query({
   },
 });
 
+export const get = query({
+  args: { id: v.id("test_cases") },
+  handler: async (ctx, args) => {
+    return await getAccessibleDoc(ctx, args.id);
+  },
+});
+
+// Used by executionActions.ts, which runs without a signed-in user
+export const getInternal = internalQuery({
+  args: { id: v.id("test_cases") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id);
+  },
+});
+
 export const create = mutation({
   args: {
     projectId: v.id("projects"),
@@ -130,26 +208,90 @@ export const create = mutation({
     expectedPrompt: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireProject(ctx, args.projectId);
+
+    const steps = [
+      { action: "call", value: args.entryPoint },
+      { action: "listen", value: args.expectedPrompt }
+    ]; // Default steps, edited afterwards with update
+    validateTestSteps(steps);
+
     return await ctx.db.insert("test_cases", {
       projectId: args.projectId,
       title: args.title,
       description: args.description,
-      steps: [
-        { action: "call", value: args.entryPoint },
-        { action: "listen", value: args.expectedPrompt }
-      ], // Default steps
+      steps,
       status: "draft",
       tags: ["manual"],
     });
   },
 });
 
+/** Edits a test case. Omitted fields are left unchanged. */
+export const update = mutation({
+  args: {
+    id: v.id("test_cases"),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    steps: v.optional(v.array(testStepValidator)),
+  },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Test case");
+
+    // patch() removes fields set to undefined, so only pass what was given
+    const patch: Partial<Doc<"test_cases">> = {};
+    if (args.title !== undefined) {
+      patch.title = args.title.trim();
+      if (!patch.title) throw new Error("Title is required");
+    }
+    if (args.description !== undefined) patch.description = args.description;
+    if (args.tags !== undefined) {
+      patch.tags = [...new Set(args.tags.map((t) => t.trim()).filter(Boolean))];
+    }
+    if (args.steps !== undefined) {
+      validateTestSteps(args.steps);
+      patch.steps = args.steps;
+    }
+
+    await ctx.db.patch(args.id, patch);
+  },
+});
+
+// Past results keep their testCaseId, so run history survives the delete
+export const remove = mutation({
+  args: { id: v.id("test_cases") },
+  handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Test case");
+    await ctx.db.delete(args.id);
+  },
+});
+
+/** Copies a test case as a new draft, still linked to the same discovered node. */
+export const duplicate = mutation({
+  args: { id: v.id("test_cases") },
+  handler: async (ctx, args) => {
+    const testCase = await requireProjectDoc(ctx, args.id, "Test case");
+
+    return await ctx.db.insert("test_cases", {
+      projectId: testCase.projectId,
+      targetNodeId: testCase.targetNodeId,
+      title: `${testCase.title} (copy)`,
+      description: testCase.description,
+      steps: testCase.steps,
+      status: "draft",
+      tags: testCase.tags,
+    });
+  },
+});
+
 export const updateStatus = mutation({
   args: { 
     id: v.id("test_cases"), 
     status: v.union(v.literal("draft"), v.literal("approved"), v.literal("disabled")) 
   },
   handler: async (ctx, args) => {
+    await requireProjectDoc(ctx, args.id, "Test case");
     await ctx.db.patch(args.id, { status: args.status });
   },
 });
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "vitest";
+import type { Doc, Id } from "./_generated/dataModel";
+import { buildTestPaths, STRATEGIES } from "./testGeneration";
+
+let nextId = 0;
+function node(fields: Partial<Doc<"ivr_nodes">> & { content: string }): Doc<"ivr_nodes"> {
+  return {
+    _id: `node${nextId++}` as Id<"ivr_nodes">,
+    _creationTime: nextId,
+    projectId: "project" as Id<"projects">,
+    type: "prompt",
+    label: "Main Menu",
+    ...fields,
+  };
+}
+
+/** A main menu with one branch, probed for silence and an invalid key pressed twice. */
+function probedMenu() {
+  const root = node({ type: "menu", content: "Press 1 for billing.", metadata: { options: [{ dtmf: "1" }] } });
+  const billing = node({
+    parentId: root._id,
+    label: "Press 1",
+    content: "Press 1 for balance. Press 2 for payments.",
+    metadata: { dtmf: "1" },
+  });
+  const silence = node({
+    parentId: root._id,
+    type: "error",
+    label: "Wait 8s",
+    content: "We did not hear a response.",
+    metadata: { wait: 8, probe: "timeout", attempt: 1 },
+  });
+  const invalid = node({
+    parentId: root._id,
+    type: "error",
+    label: "Press 9",
+    content: "That is not a valid option.",
+    metadata: { dtmf: "9", probe: "invalid_input", attempt: 1 },
+  });
+  const retry = node({
+    parentId: invalid._id,
+    type: "error",
+    label: "Press 9",
+    content: "Goodbye.",
+    metadata: { dtmf: "9", probe: "invalid_input", attempt: 2 },
+  });
+  return { root, billing, silence, invalid, retry, nodes: [root, billing, silence, invalid, retry] };
+}
+
+describe("path strategies", () => {
+  test("never target error probes", () => {
+    const { root, billing, nodes } = probedMenu();
+    const input = { nodes, entryPoint: "+15550100", coverage: "all-nodes" as const, previousNodes: null };
+
+    for (const coverage of ["all-nodes", "all-edges", "all-paths"] as const) {
+      expect(buildTestPaths(nodes, coverage).map((path) => path[path.length - 1]._id)).toEqual(
+        coverage === "all-nodes" ? [root._id, billing._id] : [billing._id]
+      );
+    }
+    expect(STRATEGIES.smoke.build(input).map((t) => t.target._id)).toEqual([root._id, billing._id]);
+    expect(STRATEGIES.regression.build(input).map((t) => t.target._id)).toEqual([root._id, billing._id]);
+  });
+});
+
+describe("negative strategy", () => {
+  test("builds tests only from the error prompts probes heard", () => {
+    const { invalid, retry, silence, nodes } = probedMenu();
+    const tests = STRATEGIES.negative.build({
+      nodes,
+      entryPoint: "+15550100",
+      coverage: "all-nodes",
+      previousNodes: null,
+    });
+
+    // The billing menu was not probed, so nothing is guessed for it
+    expect(tests.map((t) => [t.title, t.target._id])).toEqual([
+      ["Invalid input 9 at Main Menu", invalid._id],
+      ["Retry limit at Main Menu", retry._id],
+      ["No input at Main Menu", silence._id],
+    ]);
+    expect(tests[0].steps.slice(0, 2)).toEqual([
+      { action: "call", value: "+15550100" },
+      { action: "listen", value: "Press 1 for billing." },
+    ]);
+    expect(tests[1].steps.slice(-4)).toEqual([
+      { action: "dtmf", value: "9" },
+      { action: "listen", value: "That is not a valid option." },
+      { action: "dtmf", value: "9" },
+      { action: "listen", value: "Goodbye." },
+    ]);
+    expect(tests[2].steps.slice(-2)).toEqual([
+      { action: "wait", value: "8" },
+      { action: "listen", value: "We did not hear a response." },
+    ]);
+  });
+});
@@ -0,0 +1,361 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import type { MutationCtx } from "./_generated/server";
+import { getSnapshotNodes } from "./discovery";
+import { diffGraphs } from "./graph";
+import { vaultReference } from "./inputVault";
+import type { Coverage, GenerationStrategy, TestStep } from "./schema";
+
+// --- Path-Based Test Generation (root → node step sequences) --- //
+
+// Entry point written for nodes crawled before they recorded their discovery
+// job; the test agent dials the latest job's entry point instead.
+export const PLACEHOLDER_ENTRY_POINT = "+10000000000";
+
+export const DEFAULT_COVERAGE: Coverage = "all-nodes";
+
+/** Nodes from the main menu to the test's target, root first. */
+export type TestPath = Doc<"ivr_nodes">[];
+
+/** The input that moves the call from a node's parent to the node. */
+export function inputStep(node: Doc<"ivr_nodes">): TestStep | null {
+  const metadata = node.metadata;
+  if (metadata?.utterance !== undefined) return { action: "speak", value: String(metadata.utterance) };
+  if (metadata?.credential !== undefined) {
+    return {
+      action: "dtmf",
+      value: vaultReference(String(metadata.credential)) + (metadata.terminator ?? ""),
+    };
+  }
+  if (metadata?.wait !== undefined) return { action: "wait", value: String(metadata.wait) };
+  if (metadata?.dtmf !== undefined) return { action: "dtmf", value: String(metadata.dtmf) };
+  return null;
+}
+
+/** call(entryPoint) → listen(root) → input → listen → … → listen(target). */
+export function pathSteps(path: TestPath, entryPoint: string): TestStep[] {
+  const steps: TestStep[] = [{ action: "call", value: entryPoint }];
+  path.forEach((node, index) => {
+    if (index > 0) {
+      const input = inputStep(node);
+      if (input) steps.push(input);
+    }
+    steps.push({ action: "listen", value: node.content });
+  });
+  return steps;
+}
+
+export function pathTitle(path: TestPath): string {
+  return `Verify ${path.map((node) => node.label).join(" › ")}`;
+}
+
+class GraphIndex {
+  readonly byId: Map<Id<"ivr_nodes">, Doc<"ivr_nodes">>;
+  readonly children = new Map<Id<"ivr_nodes">, Doc<"ivr_nodes">[]>();
+  readonly roots: Doc<"ivr_nodes">[] = [];
+
+  constructor(nodes: Doc<"ivr_nodes">[]) {
+    this.byId = new Map(nodes.map((node) => [node._id, node]));
+    for (const node of nodes) {
+      if (!node.parentId || !this.byId.has(node.parentId)) {
+        this.roots.push(node);
+        continue;
+      }
+      const siblings = this.children.get(node.parentId) ?? [];
+      siblings.push(node);
+      this.children.set(node.parentId, siblings);
+    }
+  }
+
+  ancestry(node: Doc<"ivr_nodes">): TestPath {
+    const path: TestPath = [];
+    for (let current: Doc<"ivr_nodes"> | undefined = node; current; ) {
+      path.unshift(current);
+      current = current.parentId ? this.byId.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+}
+
+/** Drops error probe nodes, which only the negative strategy turns into tests. */
+function withoutProbes(nodes: Doc<"ivr_nodes">[]): Doc<"ivr_nodes">[] {
+  return nodes.filter((node) => !node.metadata?.probe);
+}
+
+/**
+ * Picks the paths to turn into tests. The graph is the parentId tree; loop
+ * nodes are leaves whose linkedNodeId points back at an earlier prompt, which
+ * only "all-paths" follows (once per loop, so enumeration terminates). Error
+ * probes are not paths.
+ */
+export function buildTestPaths(allNodes: Doc<"ivr_nodes">[], coverage: Coverage): TestPath[] {
+  const nodes = withoutProbes(allNodes);
+  const graph = new GraphIndex(nodes);
+
+  if (coverage === "all-nodes") {
+    return nodes.map((node) => graph.ancestry(node));
+  }
+  if (coverage === "all-edges") {
+    return nodes.filter((node) => !graph.children.has(node._id)).map((node) => graph.ancestry(node));
+  }
+
+  const paths: TestPath[] = [];
+  const walk = (node: Doc<"ivr_nodes">, prefix: TestPath, unrolled: Set<Id<"ivr_nodes">>) => {
+    const path = [...prefix, node];
+    const next = graph.children.get(node._id) ?? [];
+    if (next.length === 0) paths.push(path);
+    for (const child of next) walk(child, path, unrolled);
+
+    // Continue through the prompt the loop returned to, as if it were this node
+    if (node.isLoop && node.linkedNodeId && !unrolled.has(node._id)) {
+      const again = new Set(unrolled).add(node._id);
+      for (const child of graph.children.get(node.linkedNodeId) ?? []) walk(child, path, again);
+    }
+  };
+  for (const root of graph.roots) walk(root, [], new Set());
+  return paths;
+}
+
+// --- Generation Strategies --- //
+
+export type GeneratedTest = {
+  title: string;
+  description: string;
+  steps: TestStep[];
+  target: Doc<"ivr_nodes">;
+};
+
+type StrategyInput = {
+  nodes: Doc<"ivr_nodes">[];
+  entryPoint: string; // Number the snapshot's discovery job dialed
+  coverage: Coverage;
+  previousNodes: Doc<"ivr_nodes">[] | null; // Previous completed snapshot, for "regression"
+};
+
+type Strategy = {
+  includeLoops: boolean; // Otherwise tests targeting loop nodes are reported as skipped
+  build: (input: StrategyInput) => GeneratedTest[];
+};
+
+function pathTest(path: TestPath, entryPoint: string): GeneratedTest {
+  const target = path[path.length - 1];
+  return {
+    title: pathTitle(path),
+    description: `Navigate from the main menu to ${target.label} and verify every prompt`,
+    steps: pathSteps(path, entryPoint),
+    target,
+  };
+}
+
+/**
+ * What the IVR said after an error at `menu`, as heard by discovery's probes of
+ * that menu: the first invalid key or silence, then each retry of the same key.
+ * Empty when the menu was not probed.
+ */
+function observedErrorChain(
+  graph: GraphIndex,
+  menu: Doc<"ivr_nodes">,
+  outcome: "invalid_input" | "timeout"
+): Doc<"ivr_nodes">[] {
+  const chain: Doc<"ivr_nodes">[] = [];
+  const next = (node: Doc<"ivr_nodes">) =>
+    (graph.children.get(node._id) ?? []).find((c) => c.metadata?.probe === outcome);
+  for (let probe = next(menu); probe; probe = next(probe)) chain.push(probe);
+  return chain;
+}
+
+/**
+ * Strategies only describe which tests to build. Deduplication, loop skipping,
+ * tagging and the report are shared by generateTests.
+ */
+export const STRATEGIES: Record<GenerationStrategy, Strategy> = {
+  // The main menu and every option directly under it
+  smoke: {
+    includeLoops: false,
+    build: ({ nodes, entryPoint }) => {
+      const menus = withoutProbes(nodes);
+      const graph = new GraphIndex(menus);
+      return menus
+        .map((node) => graph.ancestry(node))
+        .filter((path) => path.length <= 2)
+        .map((path) => pathTest(path, entryPoint));
+    },
+  },
+
+  "full-path": {
+    includeLoops: true,
+    build: ({ nodes, coverage, entryPoint }) =>
+      buildTestPaths(nodes, coverage).map((path) => pathTest(path, entryPoint)),
+  },
+
+  // Invalid keys, the retry limit and silence at every menu discovery probed,
+  // expecting the error prompts its probes heard. Unprobed menus get none
+  negative: {
+    includeLoops: false,
+    build: ({ nodes, entryPoint }) => {
+      const graph = new GraphIndex(nodes);
+      const tests: GeneratedTest[] = [];
+      for (const node of nodes) {
+        if (node.metadata?.probe) continue;
+
+        const path = graph.ancestry(node);
+        const where = pathTitle(path).replace(/^Verify /, "");
+        const steps = pathSteps(path, entryPoint);
+
+        const invalid = observedErrorChain(graph, node, "invalid_input");
+        if (invalid.length > 0) {
+          const key = String(invalid[0].metadata.dtmf);
+          tests.push({
+            title: `Invalid input ${key} at ${where}`,
+            description: `Press unadvertised key ${key} at ${node.label} and verify the IVR rejects it`,
+            steps: [...steps, { action: "dtmf", value: key }, { action: "listen", value: invalid[0].content }],
+            target: invalid[0],
+          });
+        }
+        if (invalid.length > 1) {
+          tests.push({
+            title: `Retry limit at ${where}`,
+            description: `Press unadvertised key ${invalid[0].metadata.dtmf} ${invalid.length} times at ${node.label} and verify what the IVR does once it stops retrying`,
+            steps: [
+              ...steps,
+              ...invalid.flatMap((probe) => [
+                { action: "dtmf", value: String(probe.metadata.dtmf) },
+                { action: "listen", value: probe.content },
+              ]),
+            ],
+            target: invalid[invalid.length - 1],
+          });
+        }
+
+        const [timeout] = observedErrorChain(graph, node, "timeout");
+        if (timeout) {
+          tests.push({
+            title: `No input at ${where}`,
+            description: `Stay silent for ${timeout.metadata.wait}s at ${node.label} and verify the no-input handling`,
+            steps: [
+              ...steps,
+              { action: "wait", value: String(timeout.metadata.wait) },
+              { action: "listen", value: timeout.content },
+            ],
+            target: timeout,
+          });
+        }
+      }
+      return tests;
+    },
+  },
+
+  // Full paths to every prompt added, changed or moved since the previous discovery
+  regression: {
+    includeLoops: false,
+    build: ({ nodes: allNodes, entryPoint, previousNodes }) => {
+      const nodes = withoutProbes(allNodes);
+      const graph = new GraphIndex(nodes);
+      if (!previousNodes) return nodes.map((node) => pathTest(graph.ancestry(node), entryPoint));
+
+      const diff = diffGraphs(previousNodes, nodes);
+      const paths = new Set([
+        ...diff.added.map((p) => p.path),
+        ...diff.changed.map((c) => c.path),
+        ...diff.moved.map((m) => m.to.path),
+      ]);
+      return nodes
+        .filter((node) => paths.has(typeof node.metadata?.path === "string" ? node.metadata.path : node.label))
+        .map((node) => pathTest(graph.ancestry(node), entryPoint));
+    },
+  },
+};
+
+// --- Generator Service --- //
+
+export type GenerationReport = {
+  strategy: GenerationStrategy;
+  created: number;
+  skippedExisting: number;
+  skippedLoop: number;
+  tests: { id: Id<"test_cases">; title: string }[];
+};
+
+/**
+ * Generates test cases for one discovery snapshot (the latest completed job
+ * when `jobId` is omitted). A test is skipped when one with identical steps
+ * already targets the same node.
+ */
+export async function generateTests(
+  ctx: MutationCtx,
+  args: {
+    projectId: Id<"projects">;
+    jobId?: Id<"discovery_jobs">;
+    strategy: GenerationStrategy;
+    coverage?: Coverage;
+  }
+): Promise<GenerationReport> {
+  const report: GenerationReport = {
+    strategy: args.strategy,
+    created: 0,
+    skippedExisting: 0,
+    skippedLoop: 0,
+    tests: [],
+  };
+
+  const nodes = await getSnapshotNodes(ctx, args.projectId, args.jobId);
+  if (nodes.length === 0) return report;
+
+  // Without a jobId the snapshot is the latest completed job's
+  const snapshotJobId = args.jobId ?? nodes[0].jobId;
+  const snapshotJob = snapshotJobId ? await ctx.db.get(snapshotJobId) : null;
+  const entryPoint = snapshotJob?.entryPoint ?? PLACEHOLDER_ENTRY_POINT;
+
+  let previousNodes: Doc<"ivr_nodes">[] | null = null;
+  if (args.strategy === "regression") {
+    const jobs = await ctx.db
+      .query("discovery_jobs")
+      .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .collect();
+    const current = jobs.find((j) => j._id === snapshotJobId);
+    const previous = current
+      ? jobs.find((j) => j.status === "completed" && j._creationTime < current._creationTime)
+      : undefined;
+    if (previous) previousNodes = await getSnapshotNodes(ctx, args.projectId, previous._id);
+  }
+
+  const strategy = STRATEGIES[args.strategy];
+  const coverage = args.coverage ?? DEFAULT_COVERAGE;
+  const tests = strategy.build({ nodes, entryPoint, coverage, previousNodes });
+
+  for (const test of tests) {
+    if (test.target.isLoop && !strategy.includeLoops) {
+      report.skippedLoop++;
+      continue;
+    }
+
+    const existing = await ctx.db
+      .query("test_cases")
+      .withIndex("by_project_and_target_node", (q) =>
+        q.eq("projectId", args.projectId).eq("targetNodeId", test.target._id)
+      )
+      .collect();
+    if (existing.some((t) => JSON.stringify(t.steps) === JSON.stringify(test.steps))) {
+      report.skippedExisting++;
+      continue;
+    }
+
+    const id = await ctx.db.insert("test_cases", {
+      projectId: args.projectId,
+      title: test.title,
+      description: test.description,
+      steps: test.steps,
+      status: "draft",
+      targetNodeId: test.target._id,
+      sourceJobId: snapshotJobId,
+      tags:
+        args.strategy === "full-path"
+          ? ["auto-generated", args.strategy, coverage]
+          : ["auto-generated", args.strategy],
+    });
+    report.tests.push({ id, title: test.title });
+    report.created++;
+  }
+
+  return report;
+}
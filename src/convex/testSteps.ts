@@ -0,0 +1,63 @@
+import { assertionError } from "./assertions";
+import type { TestStep } from "./schema";
+
+// --- Test Step Validation --- //
+
+export const STEP_ACTIONS = ["call", "listen", "dtmf", "speak", "wait"] as const;
+export type StepAction = (typeof STEP_ACTIONS)[number];
+
+export const MAX_WAIT_SECONDS = 60;
+
+/**
+ * Why `step` is invalid, or null. DTMF values may embed "{{vault:Name}}"
+ * references; listen steps are checked against their assertions, if any.
+ */
+export function stepError(step: TestStep): string | null {
+  if (!(STEP_ACTIONS as readonly string[]).includes(step.action)) {
+    return `unknown action "${step.action}"`;
+  }
+  if (step.assertions?.length && step.action !== "listen") {
+    return "only listen steps take assertions";
+  }
+  const value = step.value.trim();
+  switch (step.action as StepAction) {
+    case "call":
+      return value ? null : "enter the number or SIP URI to call";
+    case "listen":
+      // Each assertion says what it needs; the default exact match needs the value
+      if (step.assertions?.length) {
+        return step.assertions.map((a) => assertionError(a, step.value)).find((e) => e !== null) ?? null;
+      }
+      return value ? null : "enter the prompt the IVR should play";
+    case "speak":
+      return value ? null : "enter the phrase to say";
+    case "dtmf": {
+      const keys = value.replace(/\{\{vault:[^}]+\}\}/g, "");
+      if (!value) return "enter the keys to press";
+      return /^[0-9*#]*$/.test(keys) ? null : "DTMF keys must be digits, * or #";
+    }
+    case "wait": {
+      const seconds = Number(value);
+      return Number.isInteger(seconds) && seconds >= 1 && seconds <= MAX_WAIT_SECONDS
+        ? null
+        : `wait must be a whole number of seconds between 1 and ${MAX_WAIT_SECONDS}`;
+    }
+  }
+}
+
+/**
+ * Throws unless the steps form a runnable test: a single `call` first, then
+ * steps that are each valid on their own.
+ */
+export function validateTestSteps(steps: TestStep[]) {
+  if (steps.length === 0 || steps[0].action !== "call") {
+    throw new Error("Invalid test steps: the first step must be a call");
+  }
+  steps.forEach((step, index) => {
+    if (index > 0 && step.action === "call") {
+      throw new Error(`Invalid test steps: step ${index + 1} is a second call`);
+    }
+    const error = stepError(step);
+    if (error) throw new Error(`Invalid test steps: step ${index + 1}: ${error}`);
+  });
+}
@@ -0,0 +1,282 @@
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { v } from "convex/values";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getWorkspaceRole, hasRole, isProjectOwner, requireUserId, requireWorkspaceRole } from "./access";
+import { Role, roleValidator, ROLES } from "./schema";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+async function getMembers(ctx: QueryCtx, workspaceId: Id<"workspaces">) {
+  return await ctx.db
+    .query("workspace_members")
+    .withIndex("by_workspace", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+}
+
+/** Throws when removing or demoting `userId` would leave the workspace without an admin. */
+async function assertKeepsAdmin(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  const admins = (await getMembers(ctx, workspaceId)).filter((m) => m.role === ROLES.ADMIN);
+  if (admins.length === 1 && admins[0].userId === userId) {
+    throw new Error("A workspace needs at least one admin");
+  }
+}
+
+async function addMember(ctx: MutationCtx, workspaceId: Id<"workspaces">, userId: Id<"users">, role: Role) {
+  if (await getWorkspaceRole(ctx, workspaceId, userId)) return;
+  await ctx.db.insert("workspace_members", { workspaceId, userId, role });
+}
+
+/** Loads an invitation the caller may answer: they signed in with its email, verified by OTP. */
+async function requireInvitation(ctx: QueryCtx, id: Id<"workspace_invitations">) {
+  const user = await ctx.db.get(await requireUserId(ctx));
+  const invitation = await ctx.db.get(id);
+  if (!invitation) throw new Error("Invitation not found");
+  if (!user?.email || user.emailVerificationTime === undefined || normalizeEmail(user.email) !== invitation.email) {
+    throw new Error(`Sign in as ${invitation.email} to answer this invitation`);
+  }
+  return { user, invitation };
+}
+
+// --- Workspaces --- //
+
+export const create = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await requireUserId(ctx);
+    const name = args.name.trim();
+    if (!name) throw new Error("Workspace name is required");
+
+    const workspaceId = await ctx.db.insert("workspaces", { name, createdBy: userId });
+    await addMember(ctx, workspaceId, userId, ROLES.ADMIN);
+    return workspaceId;
+  },
+});
+
+/**
+ * Gives a user with no workspace a personal one, and moves the projects they
+ * created before workspaces existed into it.
+ */
+export const ensurePersonal = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await requireUserId(ctx);
+    const existing = await ctx.db
+      .query("workspace_members")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    if (existing) return existing.workspaceId;
+
+    const workspaceId = await ctx.db.insert("workspaces", { name: "Personal", createdBy: userId });
+    await addMember(ctx, workspaceId, userId, ROLES.ADMIN);
+
+    // "userId" and the legacy "userId|sessionId" both sort below "userId}" ("}" follows "|")
+    const legacy = await ctx.db
+      .query("projects")
+      .withIndex("by_creator", (q) => q.gte("createdBy", userId).lt("createdBy", `${userId}}`))
+      .collect();
+    for (const project of legacy) {
+      if (!project.workspaceId && isProjectOwner(project, userId)) {
+        await ctx.db.patch(project._id, { workspaceId });
+      }
+    }
+    return workspaceId;
+  },
+});
+
+export const rename = mutation({
+  args: { workspaceId: v.id("workspaces"), name: v.string() },
+  handler: async (ctx, args) => {
+    await requireWorkspaceRole(ctx, args.workspaceId, ROLES.ADMIN);
+    const name = args.name.trim();
+    if (!name) throw new Error("Workspace name is required");
+    await ctx.db.patch(args.workspaceId, { name });
+  },
+});
+
+// --- Members --- //
+
+export const setMemberRole = mutation({
+  args: { workspaceId: v.id("workspaces"), userId: v.id("users"), role: roleValidator },
+  handler: async (ctx, args) => {
+    await requireWorkspaceRole(ctx, args.workspaceId, ROLES.ADMIN);
+    const membership = await ctx.db
+      .query("workspace_members")
+      .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", args.workspaceId).eq("userId", args.userId))
+      .unique();
+    if (!membership) throw new Error("Member not found");
+    if (args.role !== ROLES.ADMIN) await assertKeepsAdmin(ctx, args.workspaceId, args.userId);
+
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
+
+/** Admins remove anyone; everyone else can only leave. */
+export const removeMember = mutation({
+  args: { workspaceId: v.id("workspaces"), userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const callerId = await requireUserId(ctx);
+    await requireWorkspaceRole(ctx, args.workspaceId, callerId === args.userId ? ROLES.USER : ROLES.ADMIN);
+    const membership = await ctx.db
+      .query("workspace_members")
+      .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", args.workspaceId).eq("userId", args.userId))
+      .unique();
+    if (!membership) return;
+    await assertKeepsAdmin(ctx, args.workspaceId, args.userId);
+
+    await ctx.db.delete(membership._id);
+  },
+});
+
+// --- Invitations --- //
+
+/** Invites an email address; inviting it again changes the pending invitation's role. */
+export const invite = mutation({
+  args: { workspaceId: v.id("workspaces"), email: v.string(), role: roleValidator },
+  handler: async (ctx, args) => {
+    const { userId } = await requireWorkspaceRole(ctx, args.workspaceId, ROLES.ADMIN);
+    const email = normalizeEmail(args.email);
+    if (!EMAIL_PATTERN.test(email)) throw new Error("Enter a valid email address");
+
+    const invitee = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", email))
+      .first();
+    if (invitee && (await getWorkspaceRole(ctx, args.workspaceId, invitee._id))) {
+      throw new Error(`${email} is already a member`);
+    }
+
+    const pending = await ctx.db
+      .query("workspace_invitations")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+    const existing = pending.find((i) => i.workspaceId === args.workspaceId);
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role });
+      return existing._id;
+    }
+    return await ctx.db.insert("workspace_invitations", {
+      workspaceId: args.workspaceId,
+      email,
+      role: args.role,
+      invitedBy: userId,
+    });
+  },
+});
+
+export const revokeInvitation = mutation({
+  args: { id: v.id("workspace_invitations") },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.id);
+    if (!invitation) return;
+    await requireWorkspaceRole(ctx, invitation.workspaceId, ROLES.ADMIN);
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const acceptInvitation = mutation({
+  args: { id: v.id("workspace_invitations") },
+  handler: async (ctx, args) => {
+    const { user, invitation } = await requireInvitation(ctx, args.id);
+
+    await addMember(ctx, invitation.workspaceId, user._id, invitation.role);
+    await ctx.db.delete(args.id);
+    return invitation.workspaceId;
+  },
+});
+
+export const declineInvitation = mutation({
+  args: { id: v.id("workspace_invitations") },
+  handler: async (ctx, args) => {
+    await requireInvitation(ctx, args.id);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// --- Queries --- //
+
+/** The caller's workspaces with their role in each. */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null) return [];
+
+    const memberships = await ctx.db
+      .query("workspace_members")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+    const workspaces = await Promise.all(
+      memberships.map(async (membership) => {
+        const workspace = await ctx.db.get(membership.workspaceId);
+        return workspace && { ...workspace, role: membership.role };
+      })
+    );
+    return workspaces
+      .filter((w): w is NonNullable<typeof w> => w !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+export const listMembers = query({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (userId === null || !(await getWorkspaceRole(ctx, args.workspaceId, userId))) return [];
+
+    const members = await getMembers(ctx, args.workspaceId);
+    return await Promise.all(
+      members.map(async (member) => {
+        const user = await ctx.db.get(member.userId);
+        return {
+          userId: member.userId,
+          role: member.role,
+          name: user?.name,
+          email: user?.email,
+          isCurrentUser: member.userId === userId,
+        };
+      })
+    );
+  },
+});
+
+/** Pending invitations, for admins only: the invited addresses are not shown to the rest of the team. */
+export const listInvitations = query({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const role = userId && (await getWorkspaceRole(ctx, args.workspaceId, userId));
+    if (!role || !hasRole(role, ROLES.ADMIN)) return [];
+
+    return await ctx.db
+      .query("workspace_invitations")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+  },
+});
+
+/** Invitations addressed to the caller's verified email. */
+export const myInvitations = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    const user = userId && (await ctx.db.get(userId));
+    if (!user?.email || user.emailVerificationTime === undefined) return [];
+
+    const invitations = await ctx.db
+      .query("workspace_invitations")
+      .withIndex("by_email", (q) => q.eq("email", normalizeEmail(user.email!)))
+      .collect();
+    return await Promise.all(
+      invitations.map(async (invitation) => ({
+        ...invitation,
+        workspaceName: (await ctx.db.get(invitation.workspaceId))?.name,
+        invitedByName: (await ctx.db.get(invitation.invitedBy))?.name,
+      }))
+    );
+  },
+});
@@ -14,6 +14,8 @@ import ProjectView from "./pages/ProjectView.tsx";
 import Discovery from "./pages/Discovery.tsx";
 import TestLab from "./pages/TestLab.tsx";
 import Execution from "./pages/Execution.tsx";
+import Monitoring from "./pages/Monitoring.tsx";
+import Settings from "./pages/Settings.tsx";
 import NotFound from "./pages/NotFound.tsx";
 import "./types/global.d.ts";
 
@@ -60,7 +62,8 @@ createRoot(document.getElementById("root")!).render(
               <Route path="discovery" element={<Discovery />} />
               <Route path="test-lab" element={<TestLab />} />
               <Route path="execution" element={<Execution />} />
-              <Route path="settings" element={<div className="p-4">Settings placeholder</div>} />
+              <Route path="monitoring" element={<Monitoring />} />
+              <Route path="settings" element={<Settings />} />
             </Route>
 
             <Route path="*" element={<NotFound />} />
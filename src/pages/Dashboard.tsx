@@ -2,9 +2,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
-import { Plus, Activity, Phone, MessageSquare, Play, ChevronLeft, Trash2 } from "lucide-react";
-import { useState } from "react";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Activity, Phone, MessageSquare, Play, ChevronLeft, Trash2, Users, Mail } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -21,21 +21,59 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Id } from "@/convex/_generated/dataModel";
+import { FunctionReturnType } from "convex/server";
+import type { Role } from "@/convex/schema";
+
+const WORKSPACE_STORAGE_KEY = "cx-navigator:workspace";
+const NEW_WORKSPACE = "__new__";
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  member: "Member",
+  user: "Viewer",
+};
+
+type Workspace = FunctionReturnType<typeof api.workspaces.list>[number];
 
 export default function Dashboard() {
-  const projects = useQuery(api.projects.list, { paginationOpts: { numItems: 20, cursor: null } });
+  const workspaces = useQuery(api.workspaces.list);
+  const ensurePersonal = useMutation(api.workspaces.ensurePersonal);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState(() => localStorage.getItem(WORKSPACE_STORAGE_KEY));
+  const workspace = workspaces?.find((w) => w._id === selectedWorkspaceId) ?? workspaces?.[0];
+  const projects = useQuery(
+    api.projects.list,
+    workspace ? { workspaceId: workspace._id, paginationOpts: { numItems: 20, cursor: null } } : "skip"
+  );
   const createProject = useMutation(api.projects.create);
   const deleteProject = useMutation(api.projects.deleteProject);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [newProjectType, setNewProjectType] = useState<"voice" | "chat" | "omni">("voice");
   const navigate = useNavigate();
 
+  // The personal workspace also takes in projects created before workspaces
+  const hasNoWorkspace = workspaces?.length === 0;
+  useEffect(() => {
+    if (!hasNoWorkspace) return;
+    ensurePersonal().catch((error) => {
+      toast.error(error instanceof Error ? error.message : "Failed to set up your workspace");
+    });
+  }, [hasNoWorkspace, ensurePersonal]);
+
+  const selectWorkspace = (id: Id<"workspaces">) => {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, id);
+    setSelectedWorkspaceId(id);
+  };
+
   const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (!workspace) return;
     const formData = new FormData(e.currentTarget);
     try {
       await createProject({
+        workspaceId: workspace._id,
         name: formData.get("name") as string,
         description: (formData.get("description") as string) || "",
         type: newProjectType,
@@ -72,47 +110,59 @@ export default function Dashboard() {
           <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground mt-2">Manage your CX assurance projects and test suites.</p>
         </div>
-        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-          <DialogTrigger asChild>
-            <Button className="gap-2">
-              <Plus className="h-4 w-4" /> New Project
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create New Project</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleCreate} className="space-y-4 mt-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Project Name</Label>
-                <Input id="name" name="name" required placeholder="e.g. Customer Support IVR" />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="type">Type</Label>
-                <Select name="type" value={newProjectType} onValueChange={(v) => setNewProjectType(v as "voice" | "chat" | "omni")}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="voice">Voice / IVR</SelectItem>
-                    <SelectItem value="chat">Chatbot</SelectItem>
-                    <SelectItem value="omni">Omnichannel</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Input id="description" name="description" placeholder="Brief description of the system" />
-              </div>
-              <div className="flex justify-end gap-2 mt-6">
-                <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
-                <Button type="submit">Create Project</Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-2">
+          {workspaces && workspace && (
+            <>
+              <WorkspaceSwitcher workspaces={workspaces} value={workspace._id} onChange={selectWorkspace} />
+              <TeamDialog workspace={workspace} />
+            </>
+          )}
+          {workspace && workspace.role !== "user" && (
+            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="h-4 w-4" /> New Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Project</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleCreate} className="space-y-4 mt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Project Name</Label>
+                    <Input id="name" name="name" required placeholder="e.g. Customer Support IVR" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Type</Label>
+                    <Select name="type" value={newProjectType} onValueChange={(v) => setNewProjectType(v as "voice" | "chat" | "omni")}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="voice">Voice / IVR</SelectItem>
+                        <SelectItem value="chat">Chatbot</SelectItem>
+                        <SelectItem value="omni">Omnichannel</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input id="description" name="description" placeholder="Brief description of the system" />
+                  </div>
+                  <div className="flex justify-end gap-2 mt-6">
+                    <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                    <Button type="submit">Create Project</Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </div>
 
+      <PendingInvitations onAccepted={selectWorkspace} />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -159,35 +209,37 @@ export default function Dashboard() {
                   <div className="flex items-center gap-2">
                     {project.type === 'voice' ? <Phone className="h-4 w-4 text-muted-foreground" /> : <MessageSquare className="h-4 w-4 text-muted-foreground" />}
                     
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button 
-                          variant="ghost" 
-                          size="icon" 
-                          className="h-6 w-6 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent onClick={(e) => e.stopPropagation()}>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            This action cannot be undone. This will permanently delete the project "{project.name}" and all associated data.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel>
-                          <AlertDialogAction 
-                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            onClick={(e) => handleDelete(e, project._id)}
+                    {workspace?.role === "admin" && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button 
+                            variant="ghost" 
+                            size="icon" 
+                            className="h-6 w-6 text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                            onClick={(e) => e.stopPropagation()}
                           >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This action cannot be undone. This will permanently delete the project "{project.name}" and all associated data.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction 
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              onClick={(e) => handleDelete(e, project._id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </div>
                 <CardDescription>{project.description || "No description provided"}</CardDescription>
@@ -209,4 +261,272 @@ export default function Dashboard() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+function WorkspaceSwitcher({
+  workspaces,
+  value,
+  onChange,
+}: {
+  workspaces: Workspace[];
+  value: Id<"workspaces">;
+  onChange: (id: Id<"workspaces">) => void;
+}) {
+  const createWorkspace = useMutation(api.workspaces.create);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    try {
+      const id = await createWorkspace({ name: formData.get("name") as string });
+      onChange(id);
+      setIsCreateOpen(false);
+      toast.success("Workspace created");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create workspace");
+    }
+  };
+
+  return (
+    <>
+      <Select
+        value={value}
+        onValueChange={(id) => (id === NEW_WORKSPACE ? setIsCreateOpen(true) : onChange(id as Id<"workspaces">))}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {workspaces.map((workspace) => (
+            <SelectItem key={workspace._id} value={workspace._id}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_WORKSPACE}>+ New workspace</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+            <DialogDescription>Projects in a workspace are shared with everyone you invite to it.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4 mt-2">
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input id="workspace-name" name="name" required placeholder="e.g. Contact Center QA" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+              <Button type="submit">Create Workspace</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function RoleSelect({ value, onChange }: { value: Role; onChange: (role: Role) => void }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as Role)}>
+      <SelectTrigger className="w-32 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TeamDialog({ workspace }: { workspace: Workspace }) {
+  const members = useQuery(api.workspaces.listMembers, { workspaceId: workspace._id });
+  const isAdmin = workspace.role === "admin";
+  const invitations = useQuery(api.workspaces.listInvitations, isAdmin ? { workspaceId: workspace._id } : "skip");
+  const setMemberRole = useMutation(api.workspaces.setMemberRole);
+  const removeMember = useMutation(api.workspaces.removeMember);
+  const invite = useMutation(api.workspaces.invite);
+  const revokeInvitation = useMutation(api.workspaces.revokeInvitation);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("member");
+
+  const handleRoleChange = async (userId: Id<"users">, role: Role) => {
+    try {
+      await setMemberRole({ workspaceId: workspace._id, userId, role });
+      toast.success("Role updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update role");
+    }
+  };
+
+  const handleRemove = async (userId: Id<"users">, isCurrentUser: boolean) => {
+    try {
+      await removeMember({ workspaceId: workspace._id, userId });
+      toast.success(isCurrentUser ? `You left ${workspace.name}` : "Member removed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove member");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      await invite({ workspaceId: workspace._id, email: inviteEmail, role: inviteRole });
+      setInviteEmail("");
+      toast.success(`Invitation sent; ${inviteEmail} can accept it after signing in with that email`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to invite");
+    }
+  };
+
+  const handleRevoke = async (id: Id<"workspace_invitations">) => {
+    try {
+      await revokeInvitation({ id });
+      toast.success("Invitation revoked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke invitation");
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="h-4 w-4" /> Team
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{workspace.name}</DialogTitle>
+          <DialogDescription>
+            Viewers can see projects and results, members can also discover and run tests, and admins can also delete
+            projects, edit credentials, API keys and alerts, and manage the team.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members?.map((member) => (
+              <TableRow key={member.userId}>
+                <TableCell>
+                  <div className="font-medium">{member.name ?? member.email ?? "Anonymous"}{member.isCurrentUser && " (you)"}</div>
+                  {member.name && member.email && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                </TableCell>
+                <TableCell>
+                  {isAdmin ? (
+                    <RoleSelect value={member.role} onChange={(role) => handleRoleChange(member.userId, role)} />
+                  ) : (
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {(isAdmin || member.isCurrentUser) && (
+                    <Button size="sm" variant="ghost" onClick={() => handleRemove(member.userId, member.isCurrentUser)}>
+                      {member.isCurrentUser ? "Leave" : "Remove"}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {invitations?.map((invitation) => (
+              <TableRow key={invitation._id} className="opacity-70">
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-3.5 w-3.5 text-muted-foreground" />
+                    {invitation.email}
+                    <Badge variant="outline" className="text-[10px]">INVITED</Badge>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{ROLE_LABELS[invitation.role]}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {isAdmin && (
+                    <Button size="sm" variant="ghost" onClick={() => handleRevoke(invitation._id)}>Revoke</Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {isAdmin && (
+          <form onSubmit={handleInvite} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                required
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="teammate@example.com"
+              />
+            </div>
+            <RoleSelect value={inviteRole} onChange={setInviteRole} />
+            <Button type="submit">Invite</Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PendingInvitations({ onAccepted }: { onAccepted: (workspaceId: Id<"workspaces">) => void }) {
+  const invitations = useQuery(api.workspaces.myInvitations);
+  const acceptInvitation = useMutation(api.workspaces.acceptInvitation);
+  const declineInvitation = useMutation(api.workspaces.declineInvitation);
+
+  const handleAccept = async (id: Id<"workspace_invitations">) => {
+    try {
+      onAccepted(await acceptInvitation({ id }));
+      toast.success("Invitation accepted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to accept invitation");
+    }
+  };
+
+  const handleDecline = async (id: Id<"workspace_invitations">) => {
+    try {
+      await declineInvitation({ id });
+      toast.success("Invitation declined");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to decline invitation");
+    }
+  };
+
+  if (!invitations?.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Invitations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation._id} className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              {invitation.invitedByName ?? "A teammate"} invited you to <span className="font-medium">{invitation.workspaceName ?? "a workspace"}</span> as{" "}
+              {ROLE_LABELS[invitation.role].toLowerCase()}.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleDecline(invitation._id)}>Decline</Button>
+              <Button size="sm" onClick={() => handleAccept(invitation._id)}>Accept</Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,14 +5,16 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { api } from "@/convex/_generated/api";
+import { isStaleJob } from "@/convex/crawler";
 import { Id } from "@/convex/_generated/dataModel";
-import { useMutation, useQuery, useAction } from "convex/react";
-import { Network, RefreshCw, Search, Server, ShieldCheck, Terminal, Activity, ChevronRight, ChevronDown, AlertTriangle, Play, Download, FileJson, FileText, Settings } from "lucide-react";
+import { useMutation, useQuery } from "convex/react";
+import { Network, RefreshCw, Search, Server, ShieldCheck, Terminal, Activity, ChevronRight, ChevronDown, AlertTriangle, Play, Pause, Square, RotateCcw, Download, FileJson, FileText, Settings, GitCompare, KeyRound, Plus, Trash2 } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { useParams } from "react-router";
 import { toast } from "sonner";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 
 export default function Discovery() {
   const { projectId } = useParams();
@@ -21,27 +23,33 @@ export default function Discovery() {
       ? { id: projectId as Id<"projects"> } 
       : "skip"
   );
+  const [currentJobId, setCurrentJobId] = useState<Id<"discovery_jobs"> | null>(null);
   const nodes = useQuery(api.discovery.getNodes, 
     projectId && projectId !== ":projectId" 
-      ? { projectId: projectId as Id<"projects"> } 
+      ? { projectId: projectId as Id<"projects">, jobId: currentJobId ?? undefined } 
       : "skip"
   );
   
   const createJob = useMutation(api.discovery.createJob);
-  const runDiscovery = useAction(api.discoveryActions.runDiscovery);
+  const setUtterances = useMutation(api.projects.setUtterances);
   const resumeJob = useMutation(api.discovery.resumeJob);
-  const continueDiscovery = useAction(api.discoveryActions.continueDiscovery);
+  const pauseJob = useMutation(api.discovery.pauseJob);
+  const cancelJob = useMutation(api.discovery.cancelJob);
+  const retryJob = useMutation(api.discovery.retryJob);
   
   const configStatus = useQuery(api.discovery.getConfigStatus);
 
-  const [currentJobId, setCurrentJobId] = useState<Id<"discovery_jobs"> | null>(null);
   const job = useQuery(api.discovery.getJob, currentJobId ? { jobId: currentJobId } : "skip");
+  // A running job whose crawl stopped checkpointing can be retried from its last checkpoint
+  const isStalled = job ? isStaleJob(job, Date.now()) : false;
   const logs = useQuery(api.discovery.getLogs, currentJobId ? { jobId: currentJobId } : "skip");
 
   const [isDiscovering, setIsDiscovering] = useState(false);
   const [inputType, setInputType] = useState("phone");
   const [isSimulated, setIsSimulated] = useState(false);
   const [manualInput, setManualInput] = useState("");
+  const [isPolicyOpen, setIsPolicyOpen] = useState(false);
+  const [crawlMode, setCrawlMode] = useState<"dfs" | "bfs" | "priority">("dfs");
   const scrollRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll logs
@@ -72,27 +80,30 @@ export default function Discovery() {
     
     // Determine effective input type
     const effectiveInputType = isSimulated ? "simulated" : inputType;
+    const policy = { ...readCrawlPolicy(formData), mode: crawlMode };
+    const utterances = ((formData.get("utterances") as string | null) ?? "")
+      .split("\n")
+      .map((u) => u.trim())
+      .filter(Boolean);
 
     try {
-      // 1. Create Job
+      // Utterances belong to the project, so save them before the crawler reads them
+      if (utterances.join("\n") !== (project?.utterances ?? []).join("\n")) {
+        await setUtterances({ id: projectId as Id<"projects">, utterances });
+      }
+
+      // Creating the job starts the crawl in the background
       const jobId = await createJob({
         projectId: projectId as Id<"projects">,
         entryPoint: inputVal,
         inputType: effectiveInputType,
+        policy,
       });
       setCurrentJobId(jobId);
 
-      // 2. Run Discovery Action (Async)
-      runDiscovery({
-        jobId,
-        projectId: projectId as Id<"projects">,
-        entryPoint: inputVal,
-        inputType: effectiveInputType,
-      });
-      
       toast.success(isSimulated ? "Simulation started" : "Discovery started");
     } catch (error) {
-      toast.error("Discovery failed to start");
+      toast.error(error instanceof Error ? error.message : "Discovery failed to start");
       console.error(error);
       setIsDiscovering(false);
     }
@@ -104,12 +115,6 @@ export default function Discovery() {
     try {
       setIsDiscovering(true);
       await resumeJob({ jobId: currentJobId, input: manualInput });
-      // Trigger the continue action
-      continueDiscovery({ 
-        jobId: currentJobId, 
-        projectId: projectId as Id<"projects">, 
-        input: manualInput 
-      });
       setManualInput("");
       toast.success("Input sent to crawler");
     } catch (e) {
@@ -118,6 +123,34 @@ export default function Discovery() {
     }
   };
 
+  const handleControl = async (control: "pause" | "cancel") => {
+    if (!currentJobId) return;
+    try {
+      if (control === "pause") {
+        await pauseJob({ jobId: currentJobId });
+        toast.success("Pausing after the current node");
+      } else {
+        await cancelJob({ jobId: currentJobId });
+        toast.success("Discovery cancelled");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${control}`);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!currentJobId) return;
+    try {
+      setIsDiscovering(true);
+      // Resumes from the frontier checkpointed before the last node
+      await retryJob({ jobId: currentJobId });
+      toast.success(job?.status === "paused" ? "Discovery resumed" : "Retrying from last checkpoint");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to retry");
+      setIsDiscovering(false);
+    }
+  };
+
   const downloadArtifact = (content: string, filename: string) => {
     const blob = new Blob([content], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -230,9 +263,105 @@ export default function Discovery() {
                   </div>
                 )}
 
+                <Collapsible open={isPolicyOpen} onOpenChange={setIsPolicyOpen}>
+                  <CollapsibleTrigger asChild>
+                    <Button type="button" variant="ghost" size="sm" className="px-0 text-muted-foreground hover:text-foreground">
+                      {isPolicyOpen ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronRight className="mr-1 h-4 w-4" />}
+                      Crawl Policy
+                    </Button>
+                  </CollapsibleTrigger>
+                  {/* forceMount keeps the fields in the form when collapsed */}
+                  <CollapsibleContent forceMount>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-2">
+                      <div className="space-y-2">
+                        <Label>Crawl Mode</Label>
+                        <Select value={crawlMode} onValueChange={(v) => setCrawlMode(v as "dfs" | "bfs" | "priority")}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="dfs">Depth-First</SelectItem>
+                            <SelectItem value="bfs">Breadth-First</SelectItem>
+                            <SelectItem value="priority">Priority Keywords</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {crawlMode === "priority" && (
+                        <div className="space-y-2 col-span-2">
+                          <Label htmlFor="priorityKeywords">Priority Keywords</Label>
+                          <Input id="priorityKeywords" name="priorityKeywords" placeholder="e.g. agent, billing" />
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label htmlFor="maxDepth">Max Depth</Label>
+                        <Input id="maxDepth" name="maxDepth" type="number" min={0} placeholder="5" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxNodes">Max Nodes</Label>
+                        <Input id="maxNodes" name="maxNodes" type="number" min={1} placeholder="Unlimited" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxCalls">Max Calls</Label>
+                        <Input id="maxCalls" name="maxCalls" type="number" min={1} placeholder="Unlimited" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxDurationSeconds">Max Duration (s)</Label>
+                        <Input id="maxDurationSeconds" name="maxDurationSeconds" type="number" min={1} placeholder="Unlimited" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxOptionsPerMenu">Options per Menu</Label>
+                        <Input id="maxOptionsPerMenu" name="maxOptionsPerMenu" type="number" min={1} placeholder="All" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="maxProbedMenus">Probed Menus</Label>
+                        <Input id="maxProbedMenus" name="maxProbedMenus" type="number" min={1} placeholder="10" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="similarityThreshold">Loop Similarity</Label>
+                        <Input id="similarityThreshold" name="similarityThreshold" type="number" min={0.5} max={1} step={0.01} placeholder="0.9" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="minFuzzyTokens">Fuzzy Match Min Words</Label>
+                        <Input id="minFuzzyTokens" name="minFuzzyTokens" type="number" min={1} placeholder="12" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="allowedDigits">Allowed Digits</Label>
+                        <Input id="allowedDigits" name="allowedDigits" placeholder="e.g. 1,2,3" />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="deniedDigits">Denied Digits</Label>
+                        <Input id="deniedDigits" name="deniedDigits" placeholder="e.g. 0,*" />
+                      </div>
+                      <div className="flex items-center space-x-2 col-span-2 md:col-span-3">
+                        <Checkbox id="probeErrors" name="probeErrors" defaultChecked />
+                        <div className="grid gap-1.5 leading-none">
+                          <Label htmlFor="probeErrors">Probe Error Handling</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Presses an unadvertised key until the IVR gives up, and stays silent, at each menu up to the Probed Menus budget. Negative tests are generated for the probed menus and expect the prompts heard.
+                          </p>
+                        </div>
+                      </div>
+                      <div className="space-y-2 col-span-2 md:col-span-3">
+                        <Label htmlFor="utterances">Speech Utterances</Label>
+                        <Textarea
+                          key={project?._id}
+                          id="utterances"
+                          name="utterances"
+                          defaultValue={(project?.utterances ?? []).join("\n")}
+                          placeholder={"One per line, e.g.\nbilling question\ncancel my account"}
+                          className="min-h-[60px]"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Spoken at open-ended prompts such as "Tell me why you're calling". Saved to this project.
+                        </p>
+                      </div>
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+
                 <Button 
                   type="submit" 
-                  disabled={isDiscovering || (job?.status === 'waiting_for_input') || (!isSimulated && configStatus && !configStatus.isConfigured)} 
+                  disabled={isDiscovering || (job?.status === 'waiting_for_input') || (!isSimulated && configStatus?.isConfigured === false)} 
                   className="mt-4"
                 >
                   {isDiscovering ? <RefreshCw className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
@@ -242,6 +371,10 @@ export default function Discovery() {
             </CardContent>
           </Card>
 
+          {projectId && projectId !== ":projectId" && (
+            <InputVaultCard projectId={projectId as Id<"projects">} />
+          )}
+
           {/* Human Intervention Panel */}
           {job?.status === "waiting_for_input" && (
             <Card className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950/20 animate-in fade-in slide-in-from-top-2">
@@ -302,6 +435,10 @@ export default function Discovery() {
             </Card>
           )}
 
+          {projectId && projectId !== ":projectId" && (
+            <GraphDiffCard projectId={projectId as Id<"projects">} />
+          )}
+
           <div className="grid gap-4">
             <h3 className="text-lg font-semibold">Discovered Flow Map ({nodes?.length || 0} Nodes)</h3>
             <div className="border rounded-lg p-4 bg-card min-h-[200px]">
@@ -321,9 +458,46 @@ export default function Discovery() {
         <div className="lg:col-span-1">
           <Card className="h-full flex flex-col bg-black text-green-400 font-mono text-xs border-zinc-800">
             <CardHeader className="pb-2 border-b border-zinc-800 bg-zinc-900/50">
-              <div className="flex items-center gap-2">
-                <Terminal className="h-4 w-4" />
-                <CardTitle className="text-sm font-mono">Discovery Terminal</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Terminal className="h-4 w-4" />
+                  <CardTitle className="text-sm font-mono">Discovery Terminal</CardTitle>
+                </div>
+                <div className="flex gap-1">
+                  {(job?.status === "running" || job?.status === "queued") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] font-mono text-zinc-400 hover:text-white hover:bg-zinc-800"
+                      disabled={!!job.controlRequest}
+                      onClick={() => handleControl("pause")}
+                    >
+                      <Pause className="mr-1 h-3 w-3" /> PAUSE
+                    </Button>
+                  )}
+                  {(job?.status === "running" || job?.status === "queued" || job?.status === "paused" || job?.status === "waiting_for_input") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] font-mono text-red-400 hover:text-red-300 hover:bg-zinc-800"
+                      disabled={job.controlRequest === "cancel"}
+                      onClick={() => handleControl("cancel")}
+                    >
+                      <Square className="mr-1 h-3 w-3" /> CANCEL
+                    </Button>
+                  )}
+                  {job && (job.status === "paused" || job.status === "failed" || isStalled) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] font-mono text-yellow-400 hover:text-yellow-300 hover:bg-zinc-800"
+                      onClick={handleRetry}
+                    >
+                      {job.status === "paused" ? <Play className="mr-1 h-3 w-3" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                      {job.status === "paused" ? "RESUME" : "RETRY"}
+                    </Button>
+                  )}
+                </div>
               </div>
             </CardHeader>
             <CardContent className="flex-1 p-0 relative min-h-[300px]">
@@ -352,7 +526,11 @@ export default function Discovery() {
               </div>
             </CardContent>
             <div className="p-2 border-t border-zinc-800 bg-zinc-900/50 text-[10px] text-zinc-500 flex justify-between">
-              <span>STATUS: {job?.status?.toUpperCase() || "IDLE"}</span>
+              <span>
+                STATUS: {job?.status?.toUpperCase() || "IDLE"}
+                {job?.controlRequest === "pause" && " (PAUSING...)"}
+                {job?.controlRequest === "cancel" && " (CANCELLING...)"}
+              </span>
               <span>AGENT: vly-crawler-01</span>
             </div>
           </Card>
@@ -362,6 +540,239 @@ export default function Discovery() {
   );
 }
 
+function readCrawlPolicy(formData: FormData) {
+  const number = (name: string) => {
+    const raw = (formData.get(name) as string | null)?.trim();
+    return raw ? Number(raw) : undefined;
+  };
+  const list = (name: string) => {
+    const raw = (formData.get(name) as string | null) ?? "";
+    const list = raw.split(",").map((d) => d.trim()).filter(Boolean);
+    return list.length > 0 ? list : undefined;
+  };
+  return {
+    maxDepth: number("maxDepth"),
+    maxNodes: number("maxNodes"),
+    maxCalls: number("maxCalls"),
+    maxDurationSeconds: number("maxDurationSeconds"),
+    maxOptionsPerMenu: number("maxOptionsPerMenu"),
+    maxProbedMenus: number("maxProbedMenus"),
+    similarityThreshold: number("similarityThreshold"),
+    minFuzzyTokens: number("minFuzzyTokens"),
+    allowedDigits: list("allowedDigits"),
+    deniedDigits: list("deniedDigits"),
+    priorityKeywords: list("priorityKeywords"),
+    probeErrors: formData.get("probeErrors") === "on",
+  };
+}
+
+function GraphDiffCard({ projectId }: { projectId: Id<"projects"> }) {
+  const jobs = useQuery(api.discovery.listJobs, { projectId });
+  const completed = (jobs ?? []).filter((j) => j.status === "completed");
+  const [baseJobId, setBaseJobId] = useState<string | undefined>();
+  const [targetJobId, setTargetJobId] = useState<string | undefined>();
+
+  // Default to the two most recent completed crawls
+  const target = targetJobId ?? completed[0]?._id;
+  const base = baseJobId ?? completed[1]?._id;
+  const diff = useQuery(
+    api.discovery.diffJobs,
+    base && target && base !== target
+      ? { baseJobId: base as Id<"discovery_jobs">, targetJobId: target as Id<"discovery_jobs"> }
+      : "skip"
+  );
+
+  if (completed.length < 2) return null;
+
+  const jobLabel = (j: (typeof completed)[number]) =>
+    `${new Date(j.startTime).toLocaleString()} · ${j.entryPoint.slice(0, 24)}`;
+  const pathLabel = (path: string) => (path ? path.split(">").join(" › ") : "Main Menu");
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-4 w-4" />
+          <CardTitle className="text-base">Graph Diff</CardTitle>
+        </div>
+        <CardDescription>Compare the prompts two discovery runs found, by path and fingerprint.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Base Run</Label>
+            <Select value={base} onValueChange={setBaseJobId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {completed.map((j) => (
+                  <SelectItem key={j._id} value={j._id}>{jobLabel(j)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Compare Run</Label>
+            <Select value={target} onValueChange={setTargetJobId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {completed.map((j) => (
+                  <SelectItem key={j._id} value={j._id}>{jobLabel(j)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {diff && (
+          <div className="space-y-3 text-sm">
+            <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+              <span className="bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 px-1.5 py-0.5 rounded">+{diff.added.length} ADDED</span>
+              <span className="bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 px-1.5 py-0.5 rounded">-{diff.removed.length} REMOVED</span>
+              <span className="bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400 px-1.5 py-0.5 rounded">~{diff.changed.length} CHANGED</span>
+              <span className="bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded">{diff.moved.length} MOVED</span>
+              <span className="bg-muted px-1.5 py-0.5 rounded">{diff.unchanged} UNCHANGED</span>
+            </div>
+            {diff.added.map((p) => (
+              <div key={`added:${p.path}`} className="border-l-2 border-green-500 pl-3">
+                <div className="font-medium">{pathLabel(p.path)}</div>
+                <p className="text-xs text-muted-foreground italic">"{p.content}"</p>
+              </div>
+            ))}
+            {diff.removed.map((p) => (
+              <div key={`removed:${p.path}`} className="border-l-2 border-red-500 pl-3">
+                <div className="font-medium line-through">{pathLabel(p.path)}</div>
+                <p className="text-xs text-muted-foreground italic">"{p.content}"</p>
+              </div>
+            ))}
+            {diff.changed.map((c) => (
+              <div key={`changed:${c.path}`} className="border-l-2 border-yellow-500 pl-3">
+                <div className="font-medium">{pathLabel(c.path)}</div>
+                <p className="text-xs text-red-600 dark:text-red-400 italic">- "{c.before.content}"</p>
+                <p className="text-xs text-green-600 dark:text-green-400 italic">+ "{c.after.content}"</p>
+              </div>
+            ))}
+            {diff.moved.map((m) => (
+              <div key={`moved:${m.from.path}`} className="border-l-2 border-blue-500 pl-3">
+                <div className="font-medium">{pathLabel(m.from.path)} → {pathLabel(m.to.path)}</div>
+                <p className="text-xs text-muted-foreground italic">"{m.to.content}"</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const CREDENTIAL_TYPES = [
+  { value: "account_number", label: "Account Number" },
+  { value: "pin", label: "PIN" },
+  { value: "date_of_birth", label: "Date of Birth" },
+  { value: "member_id", label: "Member ID" },
+  { value: "ssn_last4", label: "SSN (Last 4)" },
+  { value: "zip_code", label: "ZIP Code" },
+  { value: "phone_number", label: "Phone Number" },
+  { value: "other", label: "Other (match by name)" },
+] as const;
+
+type CredentialType = (typeof CREDENTIAL_TYPES)[number]["value"];
+
+function InputVaultCard({ projectId }: { projectId: Id<"projects"> }) {
+  const credentials = useQuery(api.credentials.list, { projectId });
+  const project = useQuery(api.projects.get, { id: projectId });
+  const isAdmin = project?.role === "admin";
+  const addCredential = useMutation(api.credentials.add);
+  const removeCredential = useMutation(api.credentials.remove);
+  const [type, setType] = useState<CredentialType>("account_number");
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    try {
+      await addCredential({
+        projectId,
+        name: formData.get("credentialName") as string,
+        type,
+        value: formData.get("credentialValue") as string,
+      });
+      form.reset();
+      toast.success("Credential added to vault");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add credential");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          <CardTitle className="text-base">Input Vault</CardTitle>
+        </div>
+        <CardDescription>
+          Test credentials the crawler enters at matching prompts instead of pausing. Values are masked in logs.
+          {!isAdmin && " Only workspace admins can change them."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {credentials && credentials.length > 0 && (
+          <div className="space-y-2">
+            {credentials.map((credential) => (
+              <div key={credential._id} className="flex items-center justify-between border rounded px-3 py-2 text-sm">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{credential.name}</span>
+                  <span className="text-[10px] uppercase tracking-wider bg-secondary px-2 py-0.5 rounded-full text-secondary-foreground">
+                    {CREDENTIAL_TYPES.find((t) => t.value === credential.type)?.label ?? credential.type}
+                  </span>
+                  <span className="font-mono text-xs text-muted-foreground">{credential.maskedValue}</span>
+                </div>
+                {isAdmin && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeCredential({ id: credential._id })}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {isAdmin && (
+          <form onSubmit={handleAdd} className="flex gap-2 items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="credentialName">Name</Label>
+              <Input id="credentialName" name="credentialName" placeholder="e.g. Primary account" required />
+            </div>
+            <div className="space-y-2 w-[170px]">
+              <Label>Prompt Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as CredentialType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CREDENTIAL_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 w-[140px]">
+              <Label htmlFor="credentialValue">Value</Label>
+              <Input id="credentialValue" name="credentialValue" type="password" autoComplete="off" placeholder="Digits" required />
+            </div>
+            <Button type="submit" variant="outline">
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function FlowTree({ nodes, parentId = undefined, level = 0 }: { nodes: any[], parentId?: string, level?: number }) {
   // Find nodes that belong to this parent
   // If parentId is undefined, find root nodes (nodes with no parentId)
@@ -390,6 +801,21 @@ function FlowTree({ nodes, parentId = undefined, level = 0 }: { nodes: any[], pa
                    DTMF: {node.metadata.dtmf}
                  </div>
               )}
+              {node.metadata?.utterance && (
+                 <div className="text-[10px] font-mono bg-muted inline-block px-1.5 py-0.5 rounded">
+                   SAY: "{node.metadata.utterance}"
+                 </div>
+              )}
+              {node.metadata?.credential && (
+                 <div className="text-[10px] font-mono bg-muted inline-block px-1.5 py-0.5 rounded">
+                   VAULT: {node.metadata.credential}
+                 </div>
+              )}
+              {node.metadata?.probe && (
+                 <div className="text-[10px] font-mono bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 inline-block px-1.5 py-0.5 rounded">
+                   PROBE: {node.metadata.probe === "timeout" ? "no input" : `attempt ${node.metadata.attempt}`}
+                 </div>
+              )}
               {node.metadata?.confidence && (
                  <div className="text-[10px] font-mono bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 inline-block px-1.5 py-0.5 rounded">
                    CONF: {(node.metadata.confidence * 100).toFixed(0)}%
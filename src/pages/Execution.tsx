@@ -1,10 +1,12 @@
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { api } from "@/convex/_generated/api";
-import { Id } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { renderReport, REPORT_FORMATS, ReportFormat, reportFileName } from "@/convex/runReport";
 import { useQuery } from "convex/react";
-import { CheckCircle2, Clock, XCircle, ChevronRight, ChevronDown, AlertCircle, Volume2 } from "lucide-react";
+import { CheckCircle2, Clock, XCircle, ChevronRight, ChevronDown, AlertCircle, Download, Layers, Volume2 } from "lucide-react";
 import { useState } from "react";
 import { useParams } from "react-router";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -16,6 +18,12 @@ export default function Execution() {
       ? { projectId: projectId as Id<"projects"> } 
       : "skip"
   );
+  const suites = useQuery(api.suites.list,
+    projectId && projectId !== ":projectId"
+      ? { projectId: projectId as Id<"projects"> }
+      : "skip"
+  );
+  const suiteNames = new Map<string, string>((suites ?? []).map((s) => [s._id, s.name]));
   const [selectedRunId, setSelectedRunId] = useState<Id<"test_runs"> | null>(null);
 
   return (
@@ -28,32 +36,37 @@ export default function Execution() {
         <CardContent className="flex-1 p-0">
           <ScrollArea className="h-full">
             <div className="flex flex-col divide-y">
-              {runs?.map((run) => (
-                <button
-                  key={run._id}
-                  onClick={() => setSelectedRunId(run._id)}
-                  className={`flex items-start gap-3 p-4 text-left hover:bg-muted/50 transition-colors ${selectedRunId === run._id ? 'bg-muted' : ''}`}
-                >
-                  <div className="mt-1">
-                    {run.status === 'completed' ? (
-                      run.summary?.includes("failed") ? (
-                         <XCircle className="h-4 w-4 text-red-500" />
-                      ) : (
-                         <CheckCircle2 className="h-4 w-4 text-green-500" />
-                      )
-                    ) : (
-                      <Clock className="h-4 w-4 text-blue-500 animate-pulse" />
-                    )}
-                  </div>
-                  <div className="flex-1 space-y-1">
-                    <div className="font-medium text-sm">Run #{run._id.slice(-4)}</div>
-                    <div className="text-xs text-muted-foreground">
-                      {new Date(run.startTime).toLocaleString()}
-                    </div>
-                    <div className="text-xs text-muted-foreground line-clamp-1">{run.summary}</div>
-                  </div>
-                </button>
-              ))}
+              {groupRuns(runs ?? []).map((group) =>
+                group.campaignId ? (
+                  <Collapsible key={group.campaignId} defaultOpen>
+                    <CollapsibleTrigger className="flex w-full items-center gap-2 px-4 py-2 text-left text-xs font-medium text-muted-foreground hover:bg-muted/50">
+                      <ChevronDown className="h-3.5 w-3.5" />
+                      <Layers className="h-3.5 w-3.5" />
+                      <span className="flex-1 truncate">
+                        {suiteNames.get(group.campaignId) ?? "Deleted suite"}
+                      </span>
+                      <span>{group.runs.length} run(s)</span>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="divide-y border-t">
+                      {group.runs.map((run) => (
+                        <RunButton
+                          key={run._id}
+                          run={run}
+                          selected={selectedRunId === run._id}
+                          onSelect={() => setSelectedRunId(run._id)}
+                        />
+                      ))}
+                    </CollapsibleContent>
+                  </Collapsible>
+                ) : (
+                  <RunButton
+                    key={group.runs[0]._id}
+                    run={group.runs[0]}
+                    selected={selectedRunId === group.runs[0]._id}
+                    onSelect={() => setSelectedRunId(group.runs[0]._id)}
+                  />
+                )
+              )}
               {runs?.length === 0 && (
                 <div className="p-8 text-center text-muted-foreground text-sm">
                   No executions recorded yet.
@@ -83,14 +96,100 @@ export default function Execution() {
   );
 }
 
+/** Suite runs sharing a campaignId are grouped under their first (most recent) run. */
+function groupRuns(runs: Doc<"test_runs">[]) {
+  const groups: { campaignId?: string; runs: Doc<"test_runs">[] }[] = [];
+  for (const run of runs) {
+    const group = run.campaignId ? groups.find((g) => g.campaignId === run.campaignId) : undefined;
+    if (group) group.runs.push(run);
+    else groups.push({ campaignId: run.campaignId, runs: [run] });
+  }
+  return groups;
+}
+
+function RunButton({
+  run,
+  selected,
+  onSelect,
+}: {
+  run: Doc<"test_runs">;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const failed =
+    run.status === "failed" || (run.totalTests !== undefined ? (run.failed ?? 0) > 0 : run.summary?.includes("failed"));
+  return (
+    <button
+      onClick={onSelect}
+      className={`flex items-start gap-3 p-4 text-left hover:bg-muted/50 transition-colors ${selected ? 'bg-muted' : ''}`}
+    >
+      <div className="mt-1">
+        {run.status !== 'running' ? (
+          failed ? (
+             <XCircle className="h-4 w-4 text-red-500" />
+          ) : (
+             <CheckCircle2 className="h-4 w-4 text-green-500" />
+          )
+        ) : (
+          <Clock className="h-4 w-4 text-blue-500 animate-pulse" />
+        )}
+      </div>
+      <div className="flex-1 space-y-1">
+        <div className="font-medium text-sm flex items-center gap-2">
+          Run #{run._id.slice(-4)}
+          {run.trigger === "schedule" && (
+            <Badge variant="secondary" className="text-[10px] h-4 px-1.5">MONITOR</Badge>
+          )}
+          {run.trigger === "api" && (
+            <Badge variant="outline" className="text-[10px] h-4 px-1.5">API</Badge>
+          )}
+          {run.totalTests !== undefined && (
+            <span className="text-xs font-normal text-muted-foreground">
+              <span className="text-green-600">{run.passed ?? 0}✓</span>{" "}
+              <span className="text-red-600">{run.failed ?? 0}✗</span> / {run.totalTests}
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {new Date(run.startTime).toLocaleString()}
+        </div>
+        <div className="text-xs text-muted-foreground line-clamp-1">{run.summary}</div>
+      </div>
+    </button>
+  );
+}
+
 function RunDetails({ runId }: { runId: Id<"test_runs"> }) {
   const results = useQuery(api.execution.getResults, { runId });
+  const report = useQuery(api.reports.get, { runId });
 
   if (!results) return <div className="p-4">Loading results...</div>;
 
+  const downloadReport = (format: ReportFormat) => {
+    if (!report) return;
+    const blob = new Blob([renderReport(report, format)], { type: REPORT_FORMATS[format].contentType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = reportFileName(report, format);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <ScrollArea className="h-full pr-4">
       <div className="space-y-4">
+        <div className="flex items-center justify-end gap-2">
+          <span className="text-xs text-muted-foreground mr-1">Export</span>
+          {([["junit", "JUnit XML"], ["html", "HTML"], ["json", "JSON"]] as const).map(([format, label]) => (
+            <Button key={format} size="sm" variant="outline" disabled={!report} onClick={() => downloadReport(format)}>
+              <Download className="mr-2 h-3.5 w-3.5" />
+              {label}
+            </Button>
+          ))}
+        </div>
         {results.map((result) => (
           <div key={result._id} className="border rounded-lg p-4 space-y-3">
             <div className="flex items-center justify-between">
@@ -100,7 +199,7 @@ function RunDetails({ runId }: { runId: Id<"test_runs"> }) {
                 ) : (
                   <XCircle className="h-5 w-5 text-red-500" />
                 )}
-                <span className="font-medium">Test Case {result.testCaseId.slice(-4)}</span>
+                <span className="font-medium">{result.testCaseTitle ?? `Test Case ${result.testCaseId.slice(-4)}`}</span>
               </div>
               <Badge variant={result.status === 'pass' ? 'outline' : 'destructive'}>
                 {result.status.toUpperCase()}
@@ -0,0 +1,626 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { ALERT_CONDITIONS, MAX_DELIVERY_ATTEMPTS } from "@/convex/alerting";
+import { maskValue } from "@/convex/inputVault";
+import type { AlertCondition } from "@/convex/schema";
+import { useMutation, useQuery } from "convex/react";
+import { BellRing, CalendarClock, CheckCircle2, Clock, Eye, EyeOff, Pencil, RefreshCw, Send, Trash2, XCircle } from "lucide-react";
+import { useState } from "react";
+import { useParams } from "react-router";
+import { toast } from "sonner";
+
+export default function Monitoring() {
+  const { projectId } = useParams();
+  const schedules = useQuery(api.monitoring.list,
+    projectId && projectId !== ":projectId"
+      ? { projectId: projectId as Id<"projects"> }
+      : "skip"
+  );
+  const setEnabled = useMutation(api.monitoring.setEnabled);
+  const removeSchedule = useMutation(api.monitoring.remove);
+  const [editing, setEditing] = useState<Doc<"monitor_schedules"> | "new" | null>(null);
+
+  if (!projectId || projectId === ":projectId") return null;
+
+  const handleToggle = async (id: Id<"monitor_schedules">, enabled: boolean) => {
+    try {
+      await setEnabled({ id, enabled });
+      toast.success(enabled ? "Schedule resumed" : "Schedule paused");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update schedule");
+    }
+  };
+
+  const handleDelete = async (id: Id<"monitor_schedules">) => {
+    try {
+      await removeSchedule({ id });
+      toast.success("Schedule deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete schedule");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Monitoring</h2>
+          <p className="text-muted-foreground">Run test suites on a schedule and get alerted when they fail.</p>
+        </div>
+        <Button onClick={() => setEditing("new")}>
+          <CalendarClock className="mr-2 h-4 w-4" />
+          New Schedule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedules</CardTitle>
+          <CardDescription>Due runs outside active hours, or while the previous run is still going, are skipped.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Suite</TableHead>
+                <TableHead>Timing</TableHead>
+                <TableHead>Active Hours</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Last Run</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules?.map((schedule) => (
+                <TableRow key={schedule._id}>
+                  <TableCell className="font-medium">{schedule.suiteName ?? "Deleted suite"}</TableCell>
+                  <TableCell>
+                    {schedule.kind === "interval" ? (
+                      <span>Every {schedule.intervalMinutes} min</span>
+                    ) : (
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{schedule.cronExpression}</code>
+                    )}
+                    <div className="text-xs text-muted-foreground">{schedule.timezone}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {schedule.activeHours
+                      ? `${schedule.activeHours.start}–${schedule.activeHours.end}`
+                      : <span className="text-muted-foreground">Always</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {schedule.enabled
+                      ? new Date(schedule.nextRunAt).toLocaleString()
+                      : <span className="text-muted-foreground">Paused</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {schedule.lastRun ? <LastRun run={schedule.lastRun} /> : <span className="text-muted-foreground">Never</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.enabled}
+                      disabled={!schedule.suiteName}
+                      onCheckedChange={(checked) => handleToggle(schedule._id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(schedule)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(schedule._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {schedules?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No schedules yet. Create one to run a suite automatically.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertRulesCard projectId={projectId as Id<"projects">} />
+      <DeliveriesCard projectId={projectId as Id<"projects">} />
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Schedule" : "Edit Schedule"}</DialogTitle>
+            <DialogDescription>Monitoring runs appear in Execution marked as MONITOR.</DialogDescription>
+          </DialogHeader>
+          {editing !== null && (
+            <ScheduleForm
+              key={editing === "new" ? "new" : editing._id}
+              projectId={projectId as Id<"projects">}
+              schedule={editing === "new" ? null : editing}
+              onDone={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function LastRun({ run }: { run: Doc<"test_runs"> }) {
+  const failed = run.status === "failed" || (run.failed !== undefined ? run.failed > 0 : run.summary?.includes("failed"));
+  return (
+    <div className="flex items-center gap-1.5">
+      {run.status === "running" ? (
+        <Clock className="h-3.5 w-3.5 text-blue-500 animate-pulse" />
+      ) : failed ? (
+        <XCircle className="h-3.5 w-3.5 text-red-500" />
+      ) : (
+        <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+      )}
+      {new Date(run.startTime).toLocaleString()}
+    </div>
+  );
+}
+
+function ScheduleForm({
+  projectId,
+  schedule,
+  onDone,
+}: {
+  projectId: Id<"projects">;
+  schedule: Doc<"monitor_schedules"> | null;
+  onDone: () => void;
+}) {
+  const suites = useQuery(api.suites.list, { projectId });
+  const createSchedule = useMutation(api.monitoring.create);
+  const updateSchedule = useMutation(api.monitoring.update);
+  const [suiteId, setSuiteId] = useState<string>(schedule?.suiteId ?? "");
+  const [kind, setKind] = useState<"interval" | "cron">(schedule?.kind ?? "interval");
+  const [intervalMinutes, setIntervalMinutes] = useState(schedule?.intervalMinutes?.toString() ?? "15");
+  const [cronExpression, setCronExpression] = useState(schedule?.cronExpression ?? "0 * * * *");
+  const [timezone, setTimezone] = useState(
+    schedule?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+  const [limitHours, setLimitHours] = useState(schedule?.activeHours !== undefined);
+  const [start, setStart] = useState(schedule?.activeHours?.start ?? "08:00");
+  const [end, setEnd] = useState(schedule?.activeHours?.end ?? "18:00");
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const timing = {
+      kind,
+      intervalMinutes: kind === "interval" ? Number(intervalMinutes) : undefined,
+      cronExpression: kind === "cron" ? cronExpression.trim() : undefined,
+      timezone: timezone.trim(),
+      activeHours: limitHours ? { start, end } : undefined,
+    };
+    try {
+      if (schedule) await updateSchedule({ id: schedule._id, ...timing });
+      else {
+        if (!suiteId) throw new Error("Choose a suite to schedule");
+        await createSchedule({ suiteId: suiteId as Id<"test_suites">, ...timing });
+      }
+      toast.success(schedule ? "Schedule saved" : "Schedule created");
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save schedule");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+      <div className="space-y-2">
+        <Label>Suite</Label>
+        <Select value={suiteId} onValueChange={setSuiteId} disabled={schedule !== null}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a test suite" />
+          </SelectTrigger>
+          <SelectContent>
+            {suites?.map((suite) => (
+              <SelectItem key={suite._id} value={suite._id}>
+                {suite.name} ({suite.members.length} tests)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {suites?.length === 0 && (
+          <p className="text-xs text-muted-foreground">Create a suite in Test Lab first.</p>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <Select value={kind} onValueChange={(v) => setKind(v as typeof kind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="interval">Every N minutes</SelectItem>
+              <SelectItem value="cron">Cron expression</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {kind === "interval" ? (
+          <div className="space-y-2">
+            <Label htmlFor="schedule-interval">Minutes</Label>
+            <Input
+              id="schedule-interval"
+              type="number"
+              min={1}
+              value={intervalMinutes}
+              onChange={(e) => setIntervalMinutes(e.target.value)}
+              required
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="schedule-cron">Cron</Label>
+            <Input
+              id="schedule-cron"
+              className="font-mono"
+              value={cronExpression}
+              onChange={(e) => setCronExpression(e.target.value)}
+              placeholder="min hour day month weekday"
+              required
+            />
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="schedule-timezone">Timezone</Label>
+        <Input
+          id="schedule-timezone"
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          placeholder="e.g. America/New_York"
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Checkbox id="schedule-active-hours" checked={limitHours} onCheckedChange={(checked) => setLimitHours(checked === true)} />
+          <Label htmlFor="schedule-active-hours" className="font-normal">Only run during active hours</Label>
+        </div>
+        {limitHours && (
+          <div className="grid grid-cols-2 gap-4">
+            <Input type="time" value={start} onChange={(e) => setStart(e.target.value)} required />
+            <Input type="time" value={end} onChange={(e) => setEnd(e.target.value)} required />
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+        <Button type="submit">{schedule ? "Save" : "Create Schedule"}</Button>
+      </div>
+    </form>
+  );
+}
+
+function describeCondition(rule: Pick<Doc<"alert_rules">, "condition" | "threshold">): string {
+  const condition = ALERT_CONDITIONS.find((c) => c.condition === rule.condition);
+  if (!condition?.unit) return condition?.label ?? rule.condition;
+  return `${condition.label} ${rule.threshold}${condition.unit === "%" ? "%" : ` ${condition.unit}`}`;
+}
+
+function AlertRulesCard({ projectId }: { projectId: Id<"projects"> }) {
+  const rules = useQuery(api.alerts.list, { projectId });
+  const project = useQuery(api.projects.get, { id: projectId });
+  const isAdmin = project?.role === "admin";
+  const setEnabled = useMutation(api.alerts.setEnabled);
+  const testFire = useMutation(api.alerts.testFire);
+  const rotateSecret = useMutation(api.alerts.rotateSecret);
+  const removeRule = useMutation(api.alerts.remove);
+  const [editing, setEditing] = useState<Doc<"alert_rules"> | "new" | null>(null);
+  const [revealed, setRevealed] = useState<Id<"alert_rules"> | null>(null);
+
+  // Every action here has the same toast shape
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Alert Rules</CardTitle>
+          <CardDescription>
+            POST a signed JSON payload to a webhook when a completed run matches. Verify the
+            X-CX-Navigator-Signature header as sha256=HMAC-SHA256(timestamp + "." + body, secret), where
+            timestamp is the X-CX-Navigator-Timestamp header, and reject timestamps older than 5 minutes.
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" variant="outline" onClick={() => setEditing("new")}>
+            <BellRing className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Condition</TableHead>
+              <TableHead>Webhook</TableHead>
+              <TableHead>Secret</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules?.map((rule) => (
+              <TableRow key={rule._id}>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell className="text-sm">{describeCondition(rule)}</TableCell>
+                <TableCell className="font-mono text-xs max-w-[220px] truncate">{rule.webhookUrl}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <code className="text-xs">{revealed === rule._id ? rule.secret : maskValue(rule.secret)}</code>
+                    {isAdmin && (
+                      <>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => setRevealed(revealed === rule._id ? null : rule._id)}
+                        >
+                          {revealed === rule._id ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          title="Rotate secret"
+                          onClick={() => run(() => rotateSecret({ id: rule._id }), "Secret rotated", "Failed to rotate secret")}
+                        >
+                          <RefreshCw className="h-3.5 w-3.5" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={rule.enabled}
+                    disabled={!isAdmin}
+                    onCheckedChange={(checked) =>
+                      run(
+                        () => setEnabled({ id: rule._id, enabled: checked }),
+                        checked ? "Alert rule enabled" : "Alert rule disabled",
+                        "Failed to update alert rule"
+                      )
+                    }
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-1">
+                    {isAdmin && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => run(() => testFire({ id: rule._id }), "Test alert queued", "Failed to send test alert")}
+                        >
+                          <Send className="mr-2 h-3.5 w-3.5" />
+                          Test
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(rule)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          onClick={() => run(() => removeRule({ id: rule._id }), "Alert rule deleted", "Failed to delete alert rule")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {rules?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No alert rules. Failed runs only show up in Execution.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Alert Rule" : "Edit Alert Rule"}</DialogTitle>
+            <DialogDescription>A signing secret is generated when the rule is created.</DialogDescription>
+          </DialogHeader>
+          {editing !== null && (
+            <AlertRuleForm
+              key={editing === "new" ? "new" : editing._id}
+              projectId={projectId}
+              rule={editing === "new" ? null : editing}
+              onDone={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function AlertRuleForm({
+  projectId,
+  rule,
+  onDone,
+}: {
+  projectId: Id<"projects">;
+  rule: Doc<"alert_rules"> | null;
+  onDone: () => void;
+}) {
+  const createRule = useMutation(api.alerts.create);
+  const updateRule = useMutation(api.alerts.update);
+  const [name, setName] = useState(rule?.name ?? "");
+  const [condition, setCondition] = useState<AlertCondition>(rule?.condition ?? "any_failure");
+  const [threshold, setThreshold] = useState(rule?.threshold?.toString() ?? "");
+  const [webhookUrl, setWebhookUrl] = useState(rule?.webhookUrl ?? "");
+  const unit = ALERT_CONDITIONS.find((c) => c.condition === condition)?.unit;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fields = {
+      name,
+      condition,
+      threshold: unit && threshold ? Number(threshold) : undefined,
+      webhookUrl: webhookUrl.trim(),
+    };
+    try {
+      if (rule) await updateRule({ id: rule._id, ...fields });
+      else await createRule({ projectId, ...fields });
+      toast.success(rule ? "Alert rule saved" : "Alert rule created");
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save alert rule");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+      <div className="space-y-2">
+        <Label htmlFor="alert-name">Name</Label>
+        <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} required placeholder="e.g. Page on-call" />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Condition</Label>
+          <Select value={condition} onValueChange={(v) => setCondition(v as AlertCondition)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ALERT_CONDITIONS.map((c) => (
+                <SelectItem key={c.condition} value={c.condition}>{c.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {unit && (
+          <div className="space-y-2">
+            <Label htmlFor="alert-threshold">Threshold ({unit})</Label>
+            <Input
+              id="alert-threshold"
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              required
+            />
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="alert-url">Webhook URL</Label>
+        <Input
+          id="alert-url"
+          type="url"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrl(e.target.value)}
+          required
+          placeholder="https://hooks.example.com/ivr-alerts"
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+        <Button type="submit">{rule ? "Save" : "Create Rule"}</Button>
+      </div>
+    </form>
+  );
+}
+
+function DeliveriesCard({ projectId }: { projectId: Id<"projects"> }) {
+  const deliveries = useQuery(api.alerts.listDeliveries, { projectId });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Delivery Log</CardTitle>
+        <CardDescription>
+          Failed deliveries are retried with backoff, up to {MAX_DELIVERY_ATTEMPTS} attempts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sent</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Response</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries?.map((delivery) => (
+              <TableRow key={delivery._id}>
+                <TableCell className="text-sm">{new Date(delivery._creationTime).toLocaleString()}</TableCell>
+                <TableCell className="text-sm">{delivery.ruleName ?? "Deleted rule"}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className="text-[10px]">{delivery.event}</Badge>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={
+                      delivery.status === "delivered" ? "outline" : delivery.status === "failed" ? "destructive" : "secondary"
+                    }
+                  >
+                    {delivery.status}
+                  </Badge>
+                  {delivery.status === "pending" && delivery.nextAttemptAt && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Retry at {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">{delivery.attempts}</TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-[260px] truncate">
+                  {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : "—")}
+                </TableCell>
+              </TableRow>
+            ))}
+            {deliveries?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No alerts sent yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import type { ApiKeyPermission } from "@/convex/schema";
+import { useMutation, useQuery } from "convex/react";
+import { Ban, Copy, KeyRound, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { useParams } from "react-router";
+import { toast } from "sonner";
+
+// HTTP actions are served from the deployment's .site domain
+const API_BASE_URL = `${(import.meta.env.VITE_CONVEX_URL as string | undefined)?.replace(/\.cloud\/?$/, ".site")}/api/v1`;
+
+export default function Settings() {
+  const { projectId } = useParams();
+
+  if (!projectId || projectId === ":projectId") return null;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">Settings</h2>
+        <p className="text-muted-foreground">Project configuration and access for CI systems.</p>
+      </div>
+      <ApiKeysCard projectId={projectId as Id<"projects">} />
+    </div>
+  );
+}
+
+function ApiKeysCard({ projectId }: { projectId: Id<"projects"> }) {
+  const keys = useQuery(api.apiKeys.list, { projectId });
+  const project = useQuery(api.projects.get, { id: projectId });
+  const isAdmin = project?.role === "admin";
+  const revokeKey = useMutation(api.apiKeys.revoke);
+  const removeKey = useMutation(api.apiKeys.remove);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const handleRevoke = async (id: Id<"api_keys">) => {
+    try {
+      await revokeKey({ id });
+      toast.success("API key revoked");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke API key");
+    }
+  };
+
+  const handleDelete = async (id: Id<"api_keys">) => {
+    try {
+      await removeKey({ id });
+      toast.success("API key deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete API key");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>API Keys</CardTitle>
+          <CardDescription>
+            Authenticate requests to{" "}
+            <code className="text-xs bg-muted px-1 py-0.5 rounded">{API_BASE_URL}/projects/{projectId}</code> with{" "}
+            <code className="text-xs bg-muted px-1 py-0.5 rounded">Authorization: Bearer &lt;key&gt;</code>.
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" variant="outline" onClick={() => setIsCreateOpen(true)}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            New Key
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Key</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys?.map((key) => (
+              <TableRow key={key._id} className={key.revokedAt ? "opacity-60" : ""}>
+                <TableCell className="font-medium">
+                  {key.name}
+                  {key.revokedAt && <Badge variant="destructive" className="ml-2 text-[10px]">REVOKED</Badge>}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    {key.permissions.map((permission) => (
+                      <Badge key={permission} variant="secondary" className="text-[10px]">{permission}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {isAdmin && (
+                    <div className="flex justify-end gap-1">
+                      {!key.revokedAt && (
+                        <Button size="sm" variant="outline" onClick={() => handleRevoke(key._id)}>
+                          <Ban className="mr-2 h-3.5 w-3.5" />
+                          Revoke
+                        </Button>
+                      )}
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(key._id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {keys?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  No API keys. Create one to trigger discovery and runs from CI.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Key</DialogTitle>
+            <DialogDescription>The key is shown once. Store it in your CI system's secrets.</DialogDescription>
+          </DialogHeader>
+          {isCreateOpen && <ApiKeyForm projectId={projectId} onDone={() => setIsCreateOpen(false)} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function ApiKeyForm({ projectId, onDone }: { projectId: Id<"projects">; onDone: () => void }) {
+  const createKey = useMutation(api.apiKeys.create);
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState<ApiKeyPermission[]>(["read", "run"]);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      const { key } = await createKey({ projectId, name, permissions });
+      setCreatedKey(key);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create API key");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success("API key copied");
+  };
+
+  if (createdKey) {
+    return (
+      <div className="space-y-4 mt-2">
+        <div className="flex gap-2">
+          <Input readOnly value={createdKey} className="font-mono text-xs" />
+          <Button type="button" variant="outline" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={onDone}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+      <div className="space-y-2">
+        <Label htmlFor="api-key-name">Name</Label>
+        <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} required placeholder="e.g. GitHub Actions" />
+      </div>
+      <div className="space-y-2">
+        <Label>Permissions</Label>
+        {([
+          ["read", "Read: discovery jobs and artifacts, test cases, suites and run results"],
+          ["run", "Run: start discovery jobs and suite runs"],
+        ] as const).map(([permission, description]) => (
+          <div key={permission} className="flex items-center gap-2">
+            <Checkbox
+              id={`api-key-${permission}`}
+              checked={permissions.includes(permission)}
+              onCheckedChange={(checked) =>
+                setPermissions(checked ? [...permissions, permission] : permissions.filter((p) => p !== permission))
+              }
+            />
+            <Label htmlFor={`api-key-${permission}`} className="font-normal">{description}</Label>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+        <Button type="submit">Create Key</Button>
+      </div>
+    </form>
+  );
+}
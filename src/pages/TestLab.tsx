@@ -1,18 +1,46 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { api } from "@/convex/_generated/api";
 import { Doc, Id } from "@/convex/_generated/dataModel";
 import { useMutation, useQuery } from "convex/react";
-import { CheckCircle2, Eye, FilePlus, Play, Sparkles } from "lucide-react";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Copy,
+  Eye,
+  FilePlus,
+  Layers,
+  Pencil,
+  Play,
+  Plus,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
 import { useState } from "react";
 import { useParams } from "react-router";
 import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ASSERTION_TYPES } from "@/convex/assertions";
+import { STEP_ACTIONS, stepError } from "@/convex/testSteps";
 
 export default function TestLab() {
   const { projectId } = useParams();
@@ -23,17 +51,34 @@ export default function TestLab() {
   );
   const generate = useMutation(api.testCases.generateFromNodes);
   const createTestCase = useMutation(api.testCases.create);
-  const runTest = useMutation(api.execution.runTest);
+  const createRun = useMutation(api.execution.createRun);
+  const resolveReview = useMutation(api.testCases.resolveReview);
+  const duplicateTestCase = useMutation(api.testCases.duplicate);
+  const removeTestCase = useMutation(api.testCases.remove);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [selectedTest, setSelectedTest] = useState<Doc<"test_cases"> | null>(null);
+  const [selectedTestId, setSelectedTestId] = useState<Id<"test_cases"> | null>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [showNeedsReview, setShowNeedsReview] = useState(false);
+  const [strategy, setStrategy] = useState<"smoke" | "full-path" | "negative" | "regression">("full-path");
+  const [coverage, setCoverage] = useState<"all-nodes" | "all-edges" | "all-paths">("all-nodes");
+
+  // Looked up live so the dialog reflects edits and review changes
+  const selectedTest = testCases?.find((t) => t._id === selectedTestId) ?? null;
+  const reviewCount = testCases?.filter((t) => t.needsReview).length ?? 0;
+  const visibleTests = showNeedsReview ? testCases?.filter((t) => t.needsReview) : testCases;
 
   const handleGenerate = async () => {
     setIsGenerating(true);
     try {
-      const result = await generate({ projectId: projectId as Id<"projects"> });
-      toast.success(`Generated ${result.count} new test cases`);
+      const result = await generate({ projectId: projectId as Id<"projects">, strategy, coverage });
+      toast.success(
+        `Generated ${result.created} new test cases` +
+          (result.skippedExisting + result.skippedLoop > 0
+            ? ` (skipped ${result.skippedExisting} existing, ${result.skippedLoop} loops)`
+            : "")
+      );
     } catch (error) {
       toast.error("Failed to generate test cases");
     } finally {
@@ -59,18 +104,49 @@ export default function TestLab() {
     }
   };
 
-  const handleRun = async (testCaseId: Id<"test_cases">, e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent opening details when clicking run
+  const handleRun = async (testCaseId: Id<"test_cases">, e?: React.MouseEvent) => {
+    e?.stopPropagation(); // Prevent opening details when clicking run
     try {
-      await runTest({ testCaseId });
+      await createRun({ testCaseId });
       toast.success("Test execution started");
     } catch (error) {
       toast.error("Failed to start test");
     }
   };
 
-  const openDetails = (test: any) => {
-    setSelectedTest(test);
+  const handleResolve = async (id: Id<"test_cases">, acceptDiscoveredPrompt: boolean) => {
+    try {
+      await resolveReview({ id, acceptDiscoveredPrompt });
+      setIsDetailOpen(false);
+      toast.success(acceptDiscoveredPrompt ? "Expected prompt updated" : "Marked as reviewed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to resolve review");
+    }
+  };
+
+  const handleDuplicate = async (id: Id<"test_cases">) => {
+    try {
+      const copyId = await duplicateTestCase({ id });
+      setSelectedTestId(copyId);
+      toast.success("Test case duplicated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to duplicate test case");
+    }
+  };
+
+  const handleDelete = async (id: Id<"test_cases">) => {
+    try {
+      await removeTestCase({ id });
+      setIsDetailOpen(false);
+      toast.success("Test case deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete test case");
+    }
+  };
+
+  const openDetails = (test: Doc<"test_cases">) => {
+    setSelectedTestId(test._id);
+    setIsEditing(false);
     setIsDetailOpen(true);
   };
 
@@ -82,6 +158,29 @@ export default function TestLab() {
           <p className="text-muted-foreground">Manage and execute functional test cases.</p>
         </div>
         <div className="flex gap-2">
+          <Select value={strategy} onValueChange={(v) => setStrategy(v as typeof strategy)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="smoke">Smoke</SelectItem>
+              <SelectItem value="full-path">Full Path</SelectItem>
+              <SelectItem value="negative">Negative</SelectItem>
+              <SelectItem value="regression">Regression</SelectItem>
+            </SelectContent>
+          </Select>
+          {strategy === "full-path" && (
+            <Select value={coverage} onValueChange={(v) => setCoverage(v as typeof coverage)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all-nodes">All Nodes</SelectItem>
+                <SelectItem value="all-edges">All Edges</SelectItem>
+                <SelectItem value="all-paths">All Paths</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
           <Button variant="outline" onClick={handleGenerate} disabled={isGenerating}>
             {isGenerating ? <Sparkles className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
             Auto-Generate
@@ -126,9 +225,20 @@ export default function TestLab() {
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle>Test Cases</CardTitle>
-          <CardDescription>List of all defined test cases for this project.</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Test Cases</CardTitle>
+            <CardDescription>List of all defined test cases for this project.</CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant={showNeedsReview ? "default" : "outline"}
+            onClick={() => setShowNeedsReview(!showNeedsReview)}
+            disabled={reviewCount === 0 && !showNeedsReview}
+          >
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            Needs Review ({reviewCount})
+          </Button>
         </CardHeader>
         <CardContent>
           <Table>
@@ -142,7 +252,7 @@ export default function TestLab() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {testCases?.map((test) => (
+              {visibleTests?.map((test) => (
                 <TableRow 
                   key={test._id} 
                   className="cursor-pointer hover:bg-muted/50"
@@ -154,9 +264,14 @@ export default function TestLab() {
                   </TableCell>
                   <TableCell>{test.steps.length} steps</TableCell>
                   <TableCell>
-                    <Badge variant={test.status === 'approved' ? 'default' : 'secondary'}>
-                      {test.status}
-                    </Badge>
+                    <div className="flex gap-1 flex-wrap">
+                      <Badge variant={test.status === 'approved' ? 'default' : 'secondary'}>
+                        {test.status}
+                      </Badge>
+                      {test.needsReview && (
+                        <Badge variant="destructive" title={test.reviewReason}>needs review</Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex gap-1 flex-wrap">
@@ -174,10 +289,12 @@ export default function TestLab() {
                   </TableCell>
                 </TableRow>
               ))}
-              {testCases?.length === 0 && (
+              {visibleTests?.length === 0 && (
                 <TableRow>
                   <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
-                    No test cases found. Try auto-generating from discovery data.
+                    {showNeedsReview
+                      ? "No test cases need review."
+                      : "No test cases found. Try auto-generating from discovery data."}
                   </TableCell>
                 </TableRow>
               )}
@@ -186,48 +303,624 @@ export default function TestLab() {
         </CardContent>
       </Card>
 
+      {projectId && projectId !== ":projectId" && <SuitesCard projectId={projectId as Id<"projects">} />}
+
       <Dialog open={isDetailOpen} onOpenChange={setIsDetailOpen}>
         <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedTest?.title}</DialogTitle>
             <DialogDescription>{selectedTest?.description}</DialogDescription>
           </DialogHeader>
-          <div className="mt-4">
-            <h4 className="text-sm font-medium mb-2">Test Steps</h4>
-            <div className="border rounded-md overflow-hidden">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-muted/50">
-                    <TableHead className="w-[50px]">#</TableHead>
-                    <TableHead className="w-[100px]">Action</TableHead>
-                    <TableHead>Value / Prompt</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {selectedTest?.steps.map((step: any, index: number) => (
-                    <TableRow key={index}>
-                      <TableCell className="font-mono text-xs text-muted-foreground align-top">{index + 1}</TableCell>
-                      <TableCell className="font-medium capitalize align-top">{step.action}</TableCell>
-                      <TableCell className="font-mono text-sm whitespace-pre-wrap break-words">{step.value}</TableCell>
-                    </TableRow>
+          {selectedTest?.needsReview && (
+            <div className="mt-4 bg-destructive/15 border border-destructive/50 text-destructive px-4 py-3 rounded-lg flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+              <div className="flex-1">
+                <h4 className="font-semibold text-sm">Needs Review</h4>
+                <p className="text-sm opacity-90 mt-1">{selectedTest.reviewReason}</p>
+                <div className="flex gap-2 mt-2">
+                  {selectedTest.reviewReason?.startsWith("Expected prompt changed") && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs border-destructive/30 hover:bg-destructive/10"
+                      onClick={() => handleResolve(selectedTest._id, true)}
+                    >
+                      Accept Discovered Prompt
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs border-destructive/30 hover:bg-destructive/10"
+                    onClick={() => handleResolve(selectedTest._id, false)}
+                  >
+                    Mark Reviewed
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+          {selectedTest && isEditing ? (
+            <TestCaseEditor
+              key={selectedTest._id}
+              testCase={selectedTest}
+              onDone={() => setIsEditing(false)}
+            />
+          ) : (
+            <>
+              <div className="mt-4">
+                <h4 className="text-sm font-medium mb-2">Test Steps</h4>
+                <div className="border rounded-md overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead className="w-[50px]">#</TableHead>
+                        <TableHead className="w-[100px]">Action</TableHead>
+                        <TableHead>Value / Prompt</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedTest?.steps.map((step, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-mono text-xs text-muted-foreground align-top">{index + 1}</TableCell>
+                          <TableCell className="font-medium capitalize align-top">{step.action}</TableCell>
+                          <TableCell className="font-mono text-sm whitespace-pre-wrap break-words">
+                            {step.value}
+                            {step.assertions?.length ? (
+                              <div className="flex gap-1 flex-wrap mt-1 font-sans">
+                                {step.assertions.map((assertion, i) => (
+                                  <Badge key={i} variant="outline" className="text-[10px]">{assertion.type}</Badge>
+                                ))}
+                              </div>
+                            ) : null}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+              <div className="flex justify-between gap-2 mt-4">
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setIsEditing(true)}>
+                    <Pencil className="mr-2 h-4 w-4" /> Edit
+                  </Button>
+                  <Button variant="outline" onClick={() => selectedTest && handleDuplicate(selectedTest._id)}>
+                    <Copy className="mr-2 h-4 w-4" /> Duplicate
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" className="text-destructive hover:text-destructive">
+                        <Trash2 className="mr-2 h-4 w-4" /> Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this test case?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          "{selectedTest?.title}" will be removed. Results of past runs are kept.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          onClick={() => selectedTest && handleDelete(selectedTest._id)}
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setIsDetailOpen(false)}>Close</Button>
+                  <Button onClick={() => {
+                    if (selectedTest) {
+                      handleRun(selectedTest._id);
+                      setIsDetailOpen(false);
+                    }
+                  }}>
+                    <Play className="mr-2 h-4 w-4" /> Run Test
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+type TestStep = Doc<"test_cases">["steps"][number];
+type Assertion = NonNullable<TestStep["assertions"]>[number];
+
+const STEP_PLACEHOLDERS: Record<string, string> = {
+  call: "+1 (555) 000-0000 or sip:ivr@example.com",
+  listen: "Prompt the IVR should play",
+  dtmf: "e.g. 1, or {{vault:PIN}}#",
+  speak: "e.g. billing question",
+  wait: "Seconds of silence, e.g. 8",
+};
+
+function TestCaseEditor({ testCase, onDone }: { testCase: Doc<"test_cases">; onDone: () => void }) {
+  const update = useMutation(api.testCases.update);
+  const [title, setTitle] = useState(testCase.title);
+  const [description, setDescription] = useState(testCase.description ?? "");
+  const [tags, setTags] = useState(testCase.tags.join(", "));
+  const [steps, setSteps] = useState<TestStep[]>(testCase.steps);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Mirrors validateTestSteps, per step so each error shows under its row
+  const errors = steps.map((step, index) => {
+    if (index === 0 && step.action !== "call") return "The first step must be a call";
+    if (index > 0 && step.action === "call") return "Only the first step can be a call";
+    return stepError(step);
+  });
+  const isValid = title.trim().length > 0 && steps.length > 0 && errors.every((e) => e === null);
+
+  const changeStep = (index: number, change: Partial<TestStep>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...change } : step)));
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSteps(next);
+  };
+
+  const insertStep = (index: number) =>
+    setSteps([...steps.slice(0, index), { action: "listen", value: "" }, ...steps.slice(index)]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await update({
+        id: testCase._id,
+        title,
+        description,
+        tags: tags.split(","),
+        steps,
+      });
+      toast.success("Test case saved");
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save test case");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="edit-title">Title</Label>
+          <Input id="edit-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="edit-tags">Tags</Label>
+          <Input id="edit-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="e.g. billing, smoke" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="edit-description">Description</Label>
+        <Textarea id="edit-description" value={description} onChange={(e) => setDescription(e.target.value)} className="min-h-[60px]" />
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Test Steps</h4>
+        {steps.map((step, index) => (
+          <div key={index} className="border rounded-md p-2 space-y-1">
+            <div className="flex items-start gap-2">
+              <span className="font-mono text-xs text-muted-foreground w-6 pt-2.5">{index + 1}</span>
+              <Select value={step.action} onValueChange={(action) => changeStep(index, { action })}>
+                <SelectTrigger className="w-[110px] shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STEP_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action} className="capitalize">
+                      {action}
+                    </SelectItem>
                   ))}
-                </TableBody>
-              </Table>
+                </SelectContent>
+              </Select>
+              {step.action === "listen" ? (
+                <Textarea
+                  value={step.value}
+                  onChange={(e) => changeStep(index, { value: e.target.value })}
+                  placeholder={STEP_PLACEHOLDERS[step.action]}
+                  className="min-h-[40px] font-mono text-sm"
+                />
+              ) : (
+                <Input
+                  value={step.value}
+                  onChange={(e) => changeStep(index, { value: e.target.value })}
+                  placeholder={STEP_PLACEHOLDERS[step.action]}
+                  className="font-mono text-sm"
+                />
+              )}
+              <div className="flex shrink-0">
+                <Button size="icon" variant="ghost" title="Move up" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" title="Move down" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" title="Insert step below" onClick={() => insertStep(index + 1)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Remove step"
+                  onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
             </div>
+            {step.action === "listen" && (
+              <AssertionEditor
+                assertions={step.assertions ?? []}
+                onChange={(assertions) => changeStep(index, { assertions: assertions.length > 0 ? assertions : undefined })}
+              />
+            )}
+            {errors[index] && <p className="text-xs text-destructive pl-8">{errors[index]}</p>}
           </div>
-          <div className="flex justify-end gap-2 mt-4">
-            <Button variant="outline" onClick={() => setIsDetailOpen(false)}>Close</Button>
-            <Button onClick={() => {
-              if (selectedTest) {
-                handleRun(selectedTest._id, { stopPropagation: () => {} } as any);
-                setIsDetailOpen(false);
-              }
-            }}>
-              <Play className="mr-2 h-4 w-4" /> Run Test
-            </Button>
-          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => insertStep(steps.length)}>
+          <Plus className="mr-2 h-4 w-4" /> Add Step
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone} disabled={isSaving}>Cancel</Button>
+        <Button onClick={handleSave} disabled={!isValid || isSaving}>
+          {isSaving ? "Saving..." : "Save Changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AssertionEditor({
+  assertions,
+  onChange,
+}: {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}) {
+  const change = (index: number, patch: Partial<Assertion>) =>
+    onChange(assertions.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+  const number = (raw: string) => (raw === "" ? undefined : Number(raw));
+
+  return (
+    <div className="pl-8 space-y-1">
+      {assertions.length === 0 && (
+        <p className="text-xs text-muted-foreground">Exact match on the prompt above.</p>
+      )}
+      {assertions.map((assertion, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={assertion.type}
+            onValueChange={(type) => change(index, { type: type as Assertion["type"] })}
+          >
+            <SelectTrigger className="h-8 w-[120px] shrink-0 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASSERTION_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(assertion.type === "contains" || assertion.type === "regex") && (
+            <Input
+              className="h-8 text-xs font-mono"
+              value={assertion.value ?? ""}
+              onChange={(e) => change(index, { value: e.target.value || undefined })}
+              placeholder={assertion.type === "regex" ? "Pattern (case-insensitive)" : "Defaults to the prompt above"}
+            />
+          )}
+          {(assertion.type === "fuzzy" || assertion.type === "confidence") && (
+            <Input
+              className="h-8 w-[120px] text-xs"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={assertion.threshold ?? ""}
+              onChange={(e) => change(index, { threshold: number(e.target.value) })}
+              placeholder={assertion.type === "fuzzy" ? "Similarity 0.8" : "Min 0-1"}
+            />
+          )}
+          {assertion.type === "any-of" && (
+            <Textarea
+              className="min-h-[32px] text-xs font-mono"
+              value={(assertion.values ?? []).join("\n")}
+              onChange={(e) => change(index, { values: e.target.value.split("\n") })}
+              placeholder="One accepted prompt per line"
+            />
+          )}
+          {(assertion.type === "latency" || assertion.type === "duration") && (
+            <>
+              <Input
+                className="h-8 w-[110px] text-xs"
+                type="number"
+                min={0}
+                value={assertion.minMs ?? ""}
+                onChange={(e) => change(index, { minMs: number(e.target.value) })}
+                placeholder="Min ms"
+              />
+              <Input
+                className="h-8 w-[110px] text-xs"
+                type="number"
+                min={0}
+                value={assertion.maxMs ?? ""}
+                onChange={(e) => change(index, { maxMs: number(e.target.value) })}
+                placeholder="Max ms"
+              />
+            </>
+          )}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 shrink-0 ml-auto"
+            title="Remove assertion"
+            onClick={() => onChange(assertions.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 text-xs"
+        onClick={() => onChange([...assertions, { type: "contains" }])}
+      >
+        <Plus className="mr-1 h-3 w-3" /> Add Assertion
+      </Button>
+    </div>
+  );
+}
+
+const TEST_STATUSES = ["draft", "approved", "disabled"];
+
+function SuitesCard({ projectId }: { projectId: Id<"projects"> }) {
+  const suites = useQuery(api.suites.list, { projectId });
+  const createSuiteRun = useMutation(api.execution.createSuiteRun);
+  const removeSuite = useMutation(api.suites.remove);
+  const [editing, setEditing] = useState<Doc<"test_suites"> | "new" | null>(null);
+
+  const handleRun = async (suiteId: Id<"test_suites">) => {
+    try {
+      const { testCaseIds } = await createSuiteRun({ suiteId });
+      toast.success(`Suite run started with ${testCaseIds.length} test(s)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start suite");
+    }
+  };
+
+  const handleDelete = async (id: Id<"test_suites">) => {
+    try {
+      await removeSuite({ id });
+      toast.success("Suite deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete suite");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Test Suites</CardTitle>
+          <CardDescription>Run a filtered, ordered set of test cases as one batch.</CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setEditing("new")}>
+          <Layers className="mr-2 h-4 w-4" />
+          New Suite
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Suite</TableHead>
+              <TableHead>Filters</TableHead>
+              <TableHead>Tests</TableHead>
+              <TableHead>Concurrency</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suites?.map((suite) => (
+              <TableRow key={suite._id}>
+                <TableCell className="font-medium">
+                  {suite.name}
+                  <div className="text-xs text-muted-foreground">{suite.description}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-1 flex-wrap">
+                    {(suite.tags ?? ["any tag"]).map((tag) => (
+                      <span key={tag} className="text-xs bg-muted px-1.5 py-0.5 rounded text-muted-foreground">{tag}</span>
+                    ))}
+                    {(suite.statuses ?? ["draft", "approved"]).map((status) => (
+                      <Badge key={status} variant="outline" className="text-[10px]">{status}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell title={suite.members.map((m) => m.title).join("\n")}>{suite.members.length}</TableCell>
+                <TableCell>{suite.concurrency ?? "default"}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button size="sm" variant="ghost" title="Run suite" onClick={() => handleRun(suite._id)}>
+                    <Play className="h-4 w-4 text-green-600" />
+                  </Button>
+                  <Button size="sm" variant="ghost" title="Edit suite" onClick={() => setEditing(suite)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" title="Delete suite" onClick={() => handleDelete(suite._id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {suites?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No suites yet. Group test cases by tag or status to run them together.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Test Suite" : "Edit Test Suite"}</DialogTitle>
+            <DialogDescription>Members follow the filters, so new matching tests join automatically.</DialogDescription>
+          </DialogHeader>
+          {editing !== null && (
+            <SuiteForm
+              key={editing === "new" ? "new" : editing._id}
+              projectId={projectId}
+              suite={editing === "new" ? null : editing}
+              onDone={() => setEditing(null)}
+            />
+          )}
         </DialogContent>
       </Dialog>
-    </div>
+    </Card>
+  );
+}
+
+function SuiteForm({
+  projectId,
+  suite,
+  onDone,
+}: {
+  projectId: Id<"projects">;
+  suite: Doc<"test_suites"> | null;
+  onDone: () => void;
+}) {
+  const createSuite = useMutation(api.suites.create);
+  const updateSuite = useMutation(api.suites.update);
+  const [name, setName] = useState(suite?.name ?? "");
+  const [description, setDescription] = useState(suite?.description ?? "");
+  const [tags, setTags] = useState((suite?.tags ?? []).join(", "));
+  const [statuses, setStatuses] = useState<string[]>(suite?.statuses ?? ["draft", "approved"]);
+  const [concurrency, setConcurrency] = useState(suite?.concurrency?.toString() ?? "");
+  const [order, setOrder] = useState<Id<"test_cases">[] | undefined>(suite?.order);
+
+  const tagList = tags.split(",").map((t) => t.trim()).filter(Boolean);
+  const members = useQuery(api.suites.previewMembers, {
+    projectId,
+    tags: tagList,
+    statuses,
+    order,
+  });
+
+  const move = (index: number, offset: number) => {
+    if (!members) return;
+    const ids = members.map((m) => m._id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    setOrder(ids);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fields = {
+      name,
+      description: description || undefined,
+      tags: tagList,
+      statuses,
+      order,
+      concurrency: concurrency ? Number(concurrency) : undefined,
+    };
+    try {
+      if (suite) await updateSuite({ id: suite._id, ...fields });
+      else await createSuite({ projectId, ...fields });
+      toast.success(suite ? "Suite saved" : "Suite created");
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save suite");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="suite-name">Name</Label>
+          <Input id="suite-name" value={name} onChange={(e) => setName(e.target.value)} required placeholder="e.g. Nightly smoke" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="suite-concurrency">Concurrency</Label>
+          <Input
+            id="suite-concurrency"
+            type="number"
+            min={1}
+            max={10}
+            value={concurrency}
+            onChange={(e) => setConcurrency(e.target.value)}
+            placeholder="3"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="suite-description">Description</Label>
+        <Input id="suite-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="suite-tags">Tags</Label>
+        <Input id="suite-tags" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Any of, e.g. smoke, billing (blank for all)" />
+      </div>
+      <div className="space-y-2">
+        <Label>Statuses</Label>
+        <div className="flex gap-4">
+          {TEST_STATUSES.map((status) => (
+            <div key={status} className="flex items-center gap-2">
+              <Checkbox
+                id={`suite-status-${status}`}
+                checked={statuses.includes(status)}
+                onCheckedChange={(checked) =>
+                  setStatuses(checked ? [...statuses, status] : statuses.filter((s) => s !== status))
+                }
+              />
+              <Label htmlFor={`suite-status-${status}`} className="capitalize font-normal">{status}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Run Order ({members?.length ?? 0} tests)</Label>
+        <div className="border rounded-md divide-y max-h-[240px] overflow-y-auto">
+          {members?.map((member, index) => (
+            <div key={member._id} className="flex items-center gap-2 px-2 py-1 text-sm">
+              <span className="font-mono text-xs text-muted-foreground w-6">{index + 1}</span>
+              <span className="flex-1 truncate">{member.title}</span>
+              <Badge variant="secondary" className="text-[10px]">{member.status}</Badge>
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button type="button" size="icon" variant="ghost" className="h-7 w-7" disabled={index === members.length - 1} onClick={() => move(index, 1)}>
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          {members?.length === 0 && (
+            <div className="p-4 text-center text-sm text-muted-foreground">No test cases match these filters.</div>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+        <Button type="submit">{suite ? "Save Suite" : "Create Suite"}</Button>
+      </div>
+    </form>
   );
-}
\ No newline at end of file
+}
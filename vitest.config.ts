@@ -0,0 +1,17 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Convex functions are tested against convex-test's in-memory backend, which
+// runs them in the same edge runtime as a deployment
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    environment: "edge-runtime",
+    include: ["src/**/*.test.ts"],
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});